@@ -1,13 +1,31 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import SidePanel from './components/SidePanel';
 import ThreeDViewer from './components/ThreeDViewer';
 import AssetPanel from './components/AssetPanel';
-import { queryModel } from './services/geminiService';
-import { CameraIntrinsics, GeminiPart, ThreeDAsset, AssetTransform, ThreeDViewerRef } from './types';
+import ProjectBrowser from './components/ProjectBrowser';
+import { ChatSession } from './services/chatSession';
+import { createRecording } from './services/fixtureProvider';
+import { SceneHistory, HistoryState } from './services/sceneHistory';
+import { base64ToBytes } from './services/protobuf';
+import { MODEL_EXTENSIONS, groupModelFiles } from './services/formatRegistry';
+import { SCENE_MANIFEST_VERSION, SceneManifest, parseSceneManifest } from './services/sceneManifest';
+import { listProjects, loadProject, saveProject, deleteProject, renameProject, getLastProjectId, setLastProjectId } from './services/projectStore';
+import { Structure3D, decodeStructure3D, decodeCameraIntrinsics, decodeCamera, decodeScene3D, resolveWorldTransforms, IDENTITY_EXTRINSICS } from './services/scenecraftProto';
+import { buildRenderFiles } from './services/renderExport';
+import { formatColmapCameras, formatOpenCvYaml, intrinsicsFromPreset, parseColmapCameras, parseOpenCvYaml, resizeIntrinsics, validateIntrinsics } from './services/intrinsics';
+import { CameraIntrinsics, GeminiPart, ThreeDAsset, AssetTransform, ThreeDViewerRef, GenerationMode, SceneSnapshot, PromptImage, SceneCamera, PointCloudDisplay, Vector3, ProjectSummary, StoredProject, SnapSettings, Measurement, ReprojectionSettings } from './types';
 
 // Let TypeScript know that JSZip is available on the global scope
 declare const JSZip: any;
 
+const UNTITLED_PROJECT_NAME = 'Untitled Project';
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Without an API key, fall back to the offline mock provider so the editor still runs.
+const defaultServerEndpoint = process.env.API_KEY
+  ? 'dynamic/evergreen1:///mbns/el/home/courier/gdm/scenecraft-playback'
+  : 'mock';
+
 const defaultIntrinsics: CameraIntrinsics = {
   image_width: 800,
   image_height: 600,
@@ -34,162 +52,163 @@ const base64ToBlob = (base64: string, mimeType: string): Blob => {
   return new Blob([byteArray], { type: mimeType });
 };
 
-
 /**
- * A minimal helper class to read protobuf messages field by field.
+ * Wraps a decoded Structure3D in a new asset.
+ * @param structure The decoded message.
+ * @returns The asset, or null for unsupported or empty structures.
  */
-class ProtoReader {
-    private i = 0;
-    private bytes: Uint8Array;
-    private view: DataView;
-
-    constructor(bytes: Uint8Array) {
-        this.bytes = bytes;
-        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-    }
+const structureToAsset = ({ fileType, data, label }: Structure3D): ThreeDAsset | null => {
+  let assetFileType: ThreeDAsset['fileType'] | null = null;
+  let assetMimeType: string | null = null;
 
-    public isAtEnd(): boolean {
-        return this.i >= this.bytes.length;
-    }
-
-    public readTag(): { fieldNumber: number, wireType: number } {
-        const tag = this.readVarint();
-        return { fieldNumber: tag >> 3, wireType: tag & 7 };
-    }
-
-    public readVarint(): number {
-        let result = 0;
-        let shift = 0;
-        let byte;
-        do {
-            if (this.i >= this.bytes.length) throw new Error("Buffer underflow while reading varint");
-            byte = this.bytes[this.i++];
-            result |= (byte & 0x7f) << shift;
-            shift += 7;
-        } while (byte & 0x80);
-        return result;
-    }
-
-    public readBytes(): Uint8Array {
-        const len = this.readVarint();
-        const subArray = this.bytes.subarray(this.i, this.i + len);
-        this.i += len;
-        return subArray;
-    }
-
-    public readFloat(): number {
-        if (this.i + 4 > this.bytes.length) throw new Error("Buffer underflow while reading float");
-        const value = this.view.getFloat32(this.i, true); // true for little-endian
-        this.i += 4;
-        return value;
-    }
-    
-    public skipField(wireType: number) {
-        switch (wireType) {
-            case 0: this.readVarint(); break; // Varint
-            case 1: this.i += 8; break; // 64-bit
-            case 2: { const len = this.readVarint(); this.i += len; break; } // Length-delimited
-            case 5: this.i += 4; break; // 32-bit
-            default: throw new Error(`Unknown wire type: ${wireType}`);
-        }
-    }
-}
+  switch (fileType) {
+      case 1: // PLY
+          assetFileType = 'ply';
+          assetMimeType = 'application/x-ply';
+          break;
+      case 3: // GLB
+          assetFileType = 'glb';
+          assetMimeType = 'model/gltf-binary';
+          break;
+      case 2: // SPLAT (.splat or 3DGS PLY, detected when loading)
+          assetFileType = 'splat';
+          assetMimeType = 'application/octet-stream';
+          break;
+      default:
+          console.warn(`Unknown file type in Structure3D: ${fileType}`);
+          break;
+  }
 
-/**
- * Decodes a scenecraft.Structure3D protobuf message.
- * @param protoBytes The raw Uint8Array from the model.
- * @returns The decoded structure with file type, data, and label.
- */
-const decodeStructure3D = (protoBytes: Uint8Array): { fileType: number, data: Uint8Array, label: string } => {
-    const reader = new ProtoReader(protoBytes);
-    let fileType = 0;
-    let data = new Uint8Array();
-    let label = '';
-
-    while (!reader.isAtEnd()) {
-        const { fieldNumber, wireType } = reader.readTag();
-        switch (fieldNumber) {
-            case 1: // file_type
-                if (wireType === 0) fileType = reader.readVarint(); else reader.skipField(wireType);
-                break;
-            case 2: // data
-                if (wireType === 2) data = reader.readBytes(); else reader.skipField(wireType);
-                break;
-            case 3: // label
-                if (wireType === 2) label = new TextDecoder().decode(reader.readBytes()); else reader.skipField(wireType);
-                break;
-            default:
-                reader.skipField(wireType);
-                break;
-        }
-    }
-    return { fileType, data, label };
+  if (!assetFileType || !assetMimeType || data.length === 0) return null;
+  return {
+    id: crypto.randomUUID(),
+    data: new Blob([data], { type: assetMimeType }),
+    fileType: assetFileType,
+    label: label || 'Generated Model',
+    source: 'model',
+    visible: true,
+  };
 };
 
+// Reads a File into a base64 string (without the data URL prefix)
+const readFileAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 
-/**
- * Decodes a scenecraft.CameraIntrinsics protobuf message.
- * @param protoBytes The raw Uint8Array from the model.
- * @returns The decoded CameraIntrinsics object.
- */
-const decodeCameraIntrinsics = (protoBytes: Uint8Array): CameraIntrinsics => {
-    const reader = new ProtoReader(protoBytes);
-    const intrinsics: CameraIntrinsics = { ...defaultIntrinsics };
-
-    while (!reader.isAtEnd()) {
-        const { fieldNumber, wireType } = reader.readTag();
-        switch (fieldNumber) {
-            case 1: // image_width
-                if (wireType === 0) intrinsics.image_width = reader.readVarint(); else reader.skipField(wireType);
-                break;
-            case 2: // image_height
-                if (wireType === 0) intrinsics.image_height = reader.readVarint(); else reader.skipField(wireType);
-                break;
-            case 3: // cx
-                if (wireType === 5) intrinsics.cx = reader.readFloat(); else reader.skipField(wireType);
-                break;
-            case 4: // cy
-                if (wireType === 5) intrinsics.cy = reader.readFloat(); else reader.skipField(wireType);
-                break;
-            case 5: // fx
-                if (wireType === 5) intrinsics.fx = reader.readFloat(); else reader.skipField(wireType);
-                break;
-            case 6: // fy
-                if (wireType === 5) intrinsics.fy = reader.readFloat(); else reader.skipField(wireType);
-                break;
-            default:
-                reader.skipField(wireType);
-                break;
-        }
-    }
-    return intrinsics;
-}
+// Saves a Blob through a temporary download link
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
 
+// Reads the pixel size of an image data URL
+const readImageSize = (dataUrl: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('Could not decode the image.'));
+    image.src = dataUrl;
+  });
 
 function App() {
   const [prompt, setPrompt] = useState<string>('');
-  const [serverEndpoint, setServerEndpoint] = useState<string>('dynamic/evergreen1:///mbns/el/home/courier/gdm/scenecraft-playback');
+  const [serverEndpoint, setServerEndpoint] = useState<string>(defaultServerEndpoint);
   const [intrinsics, setIntrinsics] = useState<CameraIntrinsics>(defaultIntrinsics);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [responseParts, setResponseParts] = useState<GeminiPart[]>([]);
+  const [generationMode, setGenerationMode] = useState<GenerationMode>('replace-scene');
+  const [chatSession] = useState(() => new ChatSession());
+  const [conversationLength, setConversationLength] = useState<number>(0);
+  const [includeSceneContext, setIncludeSceneContext] = useState<boolean>(true);
+  const [promptImages, setPromptImages] = useState<PromptImage[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   const [assets, setAssets] = useState<ThreeDAsset[]>([]);
-  const [activeAssetId, setActiveAssetId] = useState<string | null>(null);
+  const [selectedAssetIds, setSelectedAssetIds] = useState<string[]>([]);
+  // The most recently selected asset; 'replace-selected' and the transform inputs act on it.
+  const activeAssetId = selectedAssetIds[selectedAssetIds.length - 1] ?? null;
   const [activeAssetTransform, setActiveAssetTransform] = useState<AssetTransform | null>(null);
   const threeDViewerRef = useRef<ThreeDViewerRef>(null);
 
   const [sourceImage, setSourceImage] = useState<string | null>(null);
   const [showSourceImage, setShowSourceImage] = useState<boolean>(false);
 
-  const processResponse = (parts: GeminiPart[]) => {
-    setResponseParts(parts);
+  const [cameras, setCameras] = useState<SceneCamera[]>([]);
+  const [activeCameraId, setActiveCameraId] = useState<string | null>(null);
+
+  const [history] = useState(() => new SceneHistory());
+  const [historyState, setHistoryState] = useState<HistoryState>(() => history.getState());
+  useEffect(() => history.subscribe(setHistoryState), [history]);
+
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>({ enabled: false, translation: 0.1, rotation: 15, scale: 0.1 });
+  const [showGrid, setShowGrid] = useState<boolean>(true);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [reprojection, setReprojection] = useState<ReprojectionSettings>({ enabled: false, style: 'silhouette', edgesOnly: false, opacity: 0.5 });
+  const [segmentationMask, setSegmentationMask] = useState<string | null>(null);
+  // Source images are usually raw photos, so the view shows the lens distortion unless told the image was undistorted.
+  const [applyLensDistortion, setApplyLensDistortion] = useState<boolean>(true);
+
+  // The project being edited. It is autosaved to IndexedDB and reopened on the next visit.
+  const [project, setProject] = useState(() => ({ id: crypto.randomUUID(), name: UNTITLED_PROJECT_NAME }));
+  const [isRestoringProject, setIsRestoringProject] = useState(true);
+  const isProjectPersistedRef = useRef(false);
+  // The project browser's list; null while the browser is closed.
+  const [projectList, setProjectList] = useState<ProjectSummary[] | null>(null);
+
+  /**
+   * Creates a handler that turns model response parts into assets, intrinsics
+   * and a source image. Parts are fed one at a time as they stream in.
+   * @param mode How new assets relate to the existing scene.
+   * @param replaceTarget The asset to swap out in 'replace-selected' mode.
+   * @param keepSourceImage Whether an uploaded image already serves as the source image.
+   */
+  const createResponseProcessor = (
+    mode: GenerationMode = 'replace-scene',
+    replaceTarget: { id: string; transform?: AssetTransform } | null = null,
+    keepSourceImage = false
+  ) => {
     let newAssetCreated = false;
-    let sourceImageFound = false;
+    let sourceImageFound = keepSourceImage;
 
-    parts.forEach(part => {
+    const addGeneratedAsset = (newAsset: ThreeDAsset) => {
+      if (replaceTarget && !newAssetCreated) {
+        // The first generated asset takes the replaced asset's slot and placement.
+        // It also takes over the replaced asset's place in the hierarchy.
+        setAssets(prevAssets => prevAssets.map(asset => {
+          if (asset.id === replaceTarget.id) {
+            return {
+              ...newAsset,
+              transformOrigin: 'center',
+              initialTransform: replaceTarget.transform && {
+                ...replaceTarget.transform,
+                scale: { x: 1, y: 1, z: 1 },
+              },
+              parentId: newAsset.parentId ?? asset.parentId,
+            };
+          }
+          return asset.parentId === replaceTarget.id ? { ...asset, parentId: newAsset.id } : asset;
+        }));
+      } else {
+        setAssets(prevAssets => [...prevAssets, { ...newAsset, placeBesideScene: mode !== 'replace-scene' }]);
+      }
+      setSelectedAssetIds([newAsset.id]);
+      newAssetCreated = true;
+    };
+
+    const processPart = (part: GeminiPart) => {
       // Find the first image and set it as the source image
       if (!sourceImageFound && part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
         setSourceImage(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
+        setSegmentationMask(null);
         sourceImageFound = true;
       }
 
@@ -198,74 +217,54 @@ function App() {
           const mimeType = part.inlineData.mimeType;
           
           if (mimeType.includes('scenecraft.Structure3D')) {
-            const byteCharacters = fromBase64(part.inlineData.data);
-            const byteNumbers = new Array(byteCharacters.length);
-            for (let i = 0; i < byteCharacters.length; i++) {
-                byteNumbers[i] = byteCharacters.charCodeAt(i);
-            }
-            const protoBytes = new Uint8Array(byteNumbers);
-
-            const { fileType, data: modelDataBytes, label } = decodeStructure3D(protoBytes);
-
-            let assetFileType: ThreeDAsset['fileType'] | null = null;
-            let assetMimeType: string | null = null;
-
-            switch (fileType) {
-                case 1: // PLY
-                    assetFileType = 'ply';
-                    assetMimeType = 'application/x-ply';
-                    break;
-                case 3: // GLB
-                    assetFileType = 'glb';
-                    assetMimeType = 'model/gltf-binary';
-                    break;
-                case 2: // SPLAT
-                    console.warn('SPLAT file type is not supported yet.');
-                    break;
-                default:
-                    console.warn(`Unknown file type in Structure3D: ${fileType}`);
-                    break;
+            const protoBytes = base64ToBytes(part.inlineData.data);
+            const newAsset = structureToAsset(decodeStructure3D(protoBytes));
+            if (newAsset) {
+                addGeneratedAsset(newAsset);
             }
+          }
+          else if (mimeType.includes('scenecraft.Scene3D')) {
+            const { objects, cameras: sceneCameras } = decodeScene3D(base64ToBytes(part.inlineData.data), defaultIntrinsics);
+            setCameras(prevCameras => [...prevCameras, ...sceneCameras]);
+            const worldTransforms = resolveWorldTransforms(objects);
+            // Map scene object ids to asset ids so parent links survive the conversion.
+            const assetIds = new Map(objects.map(object => [object.id, crypto.randomUUID()]));
 
-            if (assetFileType && assetMimeType && modelDataBytes.length > 0) {
-                const modelBlob = new Blob([modelDataBytes], { type: assetMimeType });
-                const newAsset: ThreeDAsset = {
-                  id: crypto.randomUUID(),
-                  data: modelBlob,
-                  fileType: assetFileType,
-                  label: label || 'Generated Model',
-                  source: 'model',
-                  visible: true,
-                };
-                setAssets(prevAssets => [...prevAssets, newAsset]);
-                setActiveAssetId(newAsset.id);
-                newAssetCreated = true;
-            }
+            objects.forEach(object => {
+              // Objects without (usable) geometry are grouping nodes; keep them as groups so their children stay nested.
+              const newAsset: ThreeDAsset = (object.structure && structureToAsset(object.structure))
+                ?? { id: '', data: new Blob(), fileType: 'group', label: '', source: 'model', visible: true };
+              addGeneratedAsset({
+                ...newAsset,
+                id: assetIds.get(object.id)!,
+                label: object.structure?.label || object.semanticClass || object.id,
+                initialTransform: worldTransforms.get(object.id),
+                transformOrigin: 'origin',
+                parentId: object.parentId ? assetIds.get(object.parentId) : undefined,
+                semanticClass: object.semanticClass || undefined,
+              });
+            });
+          }
+          else if (mimeType.endsWith('scenecraft.Camera')) {
+            const camera = decodeCamera(base64ToBytes(part.inlineData.data), defaultIntrinsics);
+            setCameras(prevCameras => [...prevCameras, camera]);
           }
           else if (mimeType.includes('scenecraft.CameraIntrinsics')) {
-             const byteCharacters = fromBase64(part.inlineData.data);
-             const byteNumbers = new Array(byteCharacters.length);
-             for (let i = 0; i < byteCharacters.length; i++) {
-                 byteNumbers[i] = byteCharacters.charCodeAt(i);
-             }
-             const protoBytes = new Uint8Array(byteNumbers);
-             const newIntrinsics = decodeCameraIntrinsics(protoBytes);
+             const protoBytes = base64ToBytes(part.inlineData.data);
+             const newIntrinsics = decodeCameraIntrinsics(protoBytes, defaultIntrinsics);
              setIntrinsics(newIntrinsics);
           }
           // Handle 3D model files
           else if (mimeType === 'application/x-ply') {
             const modelBlob = base64ToBlob(part.inlineData.data, mimeType);
-            const newAsset: ThreeDAsset = {
+            addGeneratedAsset({
               id: crypto.randomUUID(),
               data: modelBlob,
               fileType: 'ply',
               label: 'Generated Model',
               source: 'model',
               visible: true,
-            };
-            setAssets(prevAssets => [...prevAssets, newAsset]);
-            setActiveAssetId(newAsset.id);
-            newAssetCreated = true;
+            });
           } 
           // Handle camera intrinsics
           else if (mimeType === 'application/json') {
@@ -281,89 +280,459 @@ function App() {
           console.error("Failed to process inline data part:", error, part);
         }
       }
-    });
+    };
 
-    if (!newAssetCreated) {
-        const textOnly = parts.every(p => p.text && !p.inlineData);
-        if(!textOnly && parts.length > 0) {
-            console.warn("Model response received, but no supported 3D asset part was found.");
-        }
-    }
+    const finish = (parts: GeminiPart[]) => {
+      if (!newAssetCreated) {
+          const textOnly = parts.every(p => p.text && !p.inlineData);
+          if(!textOnly && parts.length > 0) {
+              console.warn("Model response received, but no supported 3D asset part was found.");
+          }
+      }
+    };
+
+    return { processPart, finish };
   };
 
   const handleStart = async () => {
     if (!prompt.trim()) return;
+    const mode: GenerationMode = generationMode === 'replace-selected' && !activeAssetId ? 'append' : generationMode;
     setIsLoading(true);
     setResponseParts([]);
-    setSourceImage(null);
-    setShowSourceImage(false);
-    
-    // Explicitly clear the 3D viewer first
-    if (threeDViewerRef.current) {
-      threeDViewerRef.current.clearScene();
+
+    let replaceTarget: { id: string; transform?: AssetTransform } | null = null;
+    let requestPrompt = prompt;
+    let scene: SceneSnapshot | undefined;
+
+    if (mode !== 'replace-scene' && includeSceneContext && threeDViewerRef.current) {
+      const transformsMap = new Map<string, AssetTransform>(
+        threeDViewerRef.current.getSceneData().map(item => [item.id, item.transform])
+      );
+      scene = {
+        intrinsics,
+        assets: assets.flatMap(asset => {
+          const transform = transformsMap.get(asset.id);
+          const parent = assets.find(candidate => candidate.id === asset.parentId);
+          return transform ? [{ label: asset.label, visible: asset.visible, transform, parent: parent?.label }] : [];
+        }),
+      };
     }
 
-    setAssets([]);
-    setActiveAssetId(null);
-    setActiveAssetTransform(null);
-    const response = await queryModel(prompt, serverEndpoint);
-    processResponse(response);
+    if (mode === 'replace-scene') {
+      setSourceImage(null);
+      setShowSourceImage(false);
+      setSegmentationMask(null);
+
+      // Explicitly clear the 3D viewer first
+      if (threeDViewerRef.current) {
+        threeDViewerRef.current.clearScene();
+      }
+      history.clear();
+
+      setAssets([]);
+      setSelectedAssetIds([]);
+      setActiveAssetTransform(null);
+      setCameras([]);
+      setActiveCameraId(null);
+      setMeasurements([]);
+      chatSession.reset();
+    } else if (mode === 'replace-selected' && activeAssetId) {
+      const target = assets.find(asset => asset.id === activeAssetId);
+      replaceTarget = {
+        id: activeAssetId,
+        transform: threeDViewerRef.current?.getSceneData().find(item => item.id === activeAssetId)?.transform,
+      };
+      requestPrompt = `Replace the object "${target?.label ?? 'selected object'}" in the scene. ${prompt}`;
+    }
+
+    // The first attached photo becomes the overlay, so results can be compared against it.
+    const images = promptImages;
+    if (images.length > 0) {
+      setSourceImage(`data:${images[0].mimeType};base64,${images[0].data}`);
+      setShowSourceImage(true);
+      setSegmentationMask(null);
+    }
+
+    const request: GeminiPart[] = [
+      { text: requestPrompt },
+      ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+    ];
+    // Assets are decoded and shown as soon as their part has streamed in.
+    const processor = createResponseProcessor(mode, replaceTarget, images.length > 0);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const response = await chatSession.send(request, serverEndpoint, {
+      scene,
+      signal: abortController.signal,
+      onChunk: (parts, completed) => {
+        setResponseParts(parts);
+        completed.forEach(processor.processPart);
+      },
+    });
+    abortControllerRef.current = null;
+
+    setPromptImages(prevImages => prevImages.filter(image => !images.includes(image)));
+    setResponseParts(response);
+    processor.finish(response);
+    setConversationLength(chatSession.getTurns().length);
     setIsLoading(false);
   };
 
-  const handleFileUpload = (files: File[]) => {
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Saves the conversation so it can be replayed offline with `fixture:<path>`.
+  const handleDownloadRecording = () => {
+    const recording = createRecording(chatSession.getTurns());
+    downloadBlob(new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' }), "scenecraft-recording.json");
+  };
+
+  const handleAddPromptImages = async (files: File[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length < files.length) {
+      alert('Only image files can be attached to the prompt.');
+    }
+    try {
+      const newImages = await Promise.all(imageFiles.map(async (file): Promise<PromptImage> => ({
+        id: crypto.randomUUID(),
+        name: file.name || 'pasted image',
+        mimeType: file.type,
+        data: await readFileAsBase64(file),
+      })));
+      setPromptImages(prevImages => [...prevImages, ...newImages]);
+    } catch (error) {
+      console.error("Failed to read image:", error);
+      alert(`Error reading image: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleFileUpload = (files: File[], position?: Vector3) => {
     const newAssets: ThreeDAsset[] = [];
     let lastValidAssetId: string | null = null;
     
-    files.forEach(file => {
-      const extension = file.name.split('.').pop()?.toLowerCase();
-      if (extension === 'ply' || extension === 'glb' || extension === 'gltf') {
-        const newAsset: ThreeDAsset = {
-          id: crypto.randomUUID(),
-          data: file,
-          fileType: (extension === 'gltf' ? 'glb' : extension) as 'ply' | 'glb',
-          label: file.name,
-          source: 'upload',
-          visible: true,
-        };
-        newAssets.push(newAsset);
-        lastValidAssetId = newAsset.id;
-      } else {
-        alert(`Unsupported file type: ${file.name}. Please upload a .ply, .glb, or .gltf file`);
-      }
+    // Resource files (buffers, materials, textures) ride along with the models that reference them.
+    const { models, unsupported } = groupModelFiles(files);
+    models.forEach(({ file, format, resources }) => {
+      const newAsset: ThreeDAsset = {
+        id: crypto.randomUUID(),
+        data: file,
+        fileType: format.fileType,
+        label: file.name,
+        source: 'upload',
+        visible: true,
+        resources: Object.keys(resources).length > 0 ? resources : undefined,
+        initialTransform: position && { position, rotation: { x: 0, y: 0, z: 0 }, scale: { x: 1, y: 1, z: 1 } },
+      };
+      newAssets.push(newAsset);
+      lastValidAssetId = newAsset.id;
     });
+    if (unsupported.length > 0) {
+      alert(`Unsupported file type: ${unsupported.map(file => file.name).join(', ')}. Supported formats: ${MODEL_EXTENSIONS.map(ext => `.${ext}`).join(', ')}`);
+    }
 
     if (newAssets.length > 0) {
       setAssets(prevAssets => [...prevAssets, ...newAssets]);
       if (lastValidAssetId) {
-        setActiveAssetId(lastValidAssetId);
+        setSelectedAssetIds([lastValidAssetId]);
       }
       setResponseParts([]);
     }
   };
 
-  const handleSelectAsset = (id: string | null) => {
-    setActiveAssetId(id);
-    if (id === null) {
+  // Files dropped or pasted onto the viewport: scene archives open, images become
+  // the overlay and 3D files are placed where the cursor hit the scene.
+  const handleDropFiles = async (files: File[], point: Vector3 | null) => {
+    const isZip = (file: File) => file.name.toLowerCase().endsWith('.zip');
+    const sceneArchive = files.find(isZip);
+    const images = files.filter(file => file.type.startsWith('image/'));
+
+    if (sceneArchive) {
+      if (files.length > 1) {
+        alert('A scene archive replaces the scene, so the other dropped files were ignored.');
+      }
+      await handleLoadScene(sceneArchive);
+      return;
+    }
+    // Images dropped next to a model may be its textures; only lone images become the overlay.
+    if (images.length === files.length) {
+      try {
+        setSourceImage(`data:${images[0].type};base64,${await readFileAsBase64(images[0])}`);
+        setShowSourceImage(true);
+        setSegmentationMask(null);
+      } catch (error) {
+        console.error("Failed to read image:", error);
+        alert(`Error reading image: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return;
+    }
+    handleFileUpload(files, point ?? undefined);
+  };
+
+  // Looks through a calibrated camera: its intrinsics and photo replace the current ones.
+  const handleSelectCamera = (id: string | null) => {
+    setActiveCameraId(id);
+    const camera = cameras.find(c => c.id === id);
+    if (!camera) return;
+    setIntrinsics(camera.intrinsics);
+    if (camera.sourceImage) {
+      setSourceImage(camera.sourceImage);
+      setShowSourceImage(true);
+      setSegmentationMask(null);
+    }
+  };
+
+  const handleLoadSegmentationMask = async (file: File) => {
+    try {
+      setSegmentationMask(`data:${file.type || 'image/png'};base64,${await readFileAsBase64(file)}`);
+    } catch (error) {
+      console.error("Failed to read segmentation mask:", error);
+      alert(`Error reading segmentation mask: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleSelectionChange = (ids: string[]) => {
+    setSelectedAssetIds(ids);
+    if (ids.length !== 1) {
       setActiveAssetTransform(null);
     }
   };
 
+  // List clicks: a plain click selects one asset (or deselects it when it is the
+  // only selection); with a modifier it is added to or removed from the selection.
+  const handleSelectAsset = (id: string, additive: boolean) => {
+    if (additive) {
+      handleSelectionChange(selectedAssetIds.includes(id)
+        ? selectedAssetIds.filter(selectedId => selectedId !== id)
+        : [...selectedAssetIds, id]);
+    } else {
+      handleSelectionChange(selectedAssetIds.length === 1 && selectedAssetIds[0] === id ? [] : [id]);
+    }
+  };
+
+  // Numeric edits from the AssetPanel. Keystrokes on the same asset are
+  // coalesced into one history entry by the merge key.
+  const handleTransformEdit = (transform: AssetTransform) => {
+    const id = activeAssetId;
+    const before = activeAssetTransform;
+    setActiveAssetTransform(transform);
+    if (!id || !before) return;
+    history.record({
+      label: 'Edit transform',
+      mergeKey: `transform:${id}`,
+      undo: () => threeDViewerRef.current?.setAssetTransform(id, before),
+      redo: () => threeDViewerRef.current?.setAssetTransform(id, transform),
+    });
+  };
+
+  const handleIntrinsicsEdit = (newIntrinsics: CameraIntrinsics) => {
+    const before = intrinsics;
+    setIntrinsics(newIntrinsics);
+    history.record({
+      label: 'Edit intrinsics',
+      mergeKey: 'intrinsics',
+      undo: () => setIntrinsics(before),
+      redo: () => setIntrinsics(newIntrinsics),
+    });
+  };
+
+  // Sizes the intrinsics to the source image; without usable ones, starts from a typical phone camera.
+  const handleDeriveIntrinsicsFromImage = async () => {
+    if (!sourceImage) return;
+    try {
+      const { width, height } = await readImageSize(sourceImage);
+      const usable = intrinsics.image_width > 0 && intrinsics.image_height > 0 && intrinsics.fx > 0 && intrinsics.fy > 0;
+      handleIntrinsicsEdit(usable ? resizeIntrinsics(intrinsics, width, height) : intrinsicsFromPreset(width, height, 26));
+    } catch (error) {
+      console.error("Failed to read source image size:", error);
+      alert(`Error reading the source image: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleImportIntrinsics = async (file: File) => {
+    try {
+      const text = await file.text();
+      let imported: CameraIntrinsics;
+      // Cameras in the file beyond the one imported; reported once the import is applied.
+      let skippedCameras = 0;
+      if (/\.ya?ml$/i.test(file.name)) {
+        imported = parseOpenCvYaml(text, intrinsics);
+      } else {
+        const cameras = parseColmapCameras(text);
+        imported = cameras[0];
+        skippedCameras = cameras.length - 1;
+      }
+      const issues = validateIntrinsics(imported);
+      if (issues.length > 0) {
+        throw new Error(issues.join(' '));
+      }
+      handleIntrinsicsEdit(imported);
+      if (skippedCameras > 0) {
+        console.warn(`${file.name}: imported the first camera, skipped ${skippedCameras} more.`);
+        alert(`${file.name} lists ${skippedCameras + 1} cameras. The first one was imported; the other ${skippedCameras} were skipped.`);
+      }
+    } catch (error) {
+      console.error("Failed to import intrinsics:", error);
+      alert(`Error importing ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleExportIntrinsics = (format: 'colmap' | 'opencv') => {
+    if (format === 'colmap') {
+      downloadBlob(new Blob([formatColmapCameras(intrinsics)], { type: 'text/plain' }), 'cameras.txt');
+    } else {
+      downloadBlob(new Blob([formatOpenCvYaml(intrinsics)], { type: 'application/x-yaml' }), 'calibration.yaml');
+    }
+  };
+
   const handleDeleteAsset = (idToDelete: string) => {
-    if (activeAssetId === idToDelete) {
-      setActiveAssetId(null);
+    const index = assets.findIndex(asset => asset.id === idToDelete);
+    if (index < 0) return;
+
+    // Keep the Blob and the current transform so undo can reload the asset in place.
+    const transform = threeDViewerRef.current?.getSceneData().find(item => item.id === idToDelete)?.transform;
+    const deletedAsset: ThreeDAsset = transform
+      ? { ...assets[index], initialTransform: transform, transformOrigin: 'center', placeBesideScene: undefined }
+      : assets[index];
+
+    // Children move up to the deleted asset's parent, so deleting a group ungroups it.
+    const childIds = assets.filter(asset => asset.parentId === idToDelete).map(asset => asset.id);
+
+    const removeAsset = () => {
+      setSelectedAssetIds(prevIds => prevIds.filter(id => id !== idToDelete));
+      setAssets(prevAssets => prevAssets
+        .filter(asset => asset.id !== idToDelete)
+        .map(asset => (childIds.includes(asset.id) ? { ...asset, parentId: deletedAsset.parentId } : asset)));
+    };
+    const restoreAsset = () => {
+      setAssets(prevAssets => {
+        const nextAssets = prevAssets.map(asset => (childIds.includes(asset.id) ? { ...asset, parentId: idToDelete } : asset));
+        nextAssets.splice(Math.min(index, nextAssets.length), 0, deletedAsset);
+        return nextAssets;
+      });
+    };
+
+    removeAsset();
+    history.record({ label: `Delete ${deletedAsset.label}`, undo: restoreAsset, redo: removeAsset });
+  };
+
+  // Wraps the selection in a new group placed at its center. Selected assets nested
+  // under other selected assets keep their parent.
+  const handleGroupSelection = () => {
+    const members = assets.filter(asset => selectedAssetIds.includes(asset.id));
+    if (members.length === 0) return;
+    const topLevel = members.filter(asset => !asset.parentId || !selectedAssetIds.includes(asset.parentId));
+    const parentIds = new Set(topLevel.map(asset => asset.parentId));
+    const center = threeDViewerRef.current?.getBoundsCenter(selectedAssetIds) ?? { x: 0, y: 0, z: 0 };
+
+    const group: ThreeDAsset = {
+      id: crypto.randomUUID(),
+      data: new Blob(),
+      fileType: 'group',
+      label: `Group ${assets.filter(asset => asset.fileType === 'group').length + 1}`,
+      source: 'editor',
+      visible: true,
+      initialTransform: { position: center, rotation: { x: 0, y: 0, z: 0 }, scale: { x: 1, y: 1, z: 1 } },
+      // Stay where the members were when they shared a parent.
+      parentId: parentIds.size === 1 ? topLevel[0].parentId : undefined,
+    };
+    const previousParents = new Map(topLevel.map(asset => [asset.id, asset.parentId]));
+
+    const addGroup = () => {
+      setAssets(prevAssets => [
+        ...prevAssets.map(asset => (previousParents.has(asset.id) ? { ...asset, parentId: group.id } : asset)),
+        group,
+      ]);
+      handleSelectionChange([group.id]);
+    };
+    const removeGroup = () => {
+      setSelectedAssetIds(prevIds => prevIds.filter(id => id !== group.id));
+      setAssets(prevAssets => prevAssets
+        .filter(asset => asset.id !== group.id)
+        .map(asset => (previousParents.has(asset.id) ? { ...asset, parentId: previousParents.get(asset.id) } : asset)));
+    };
+
+    addGroup();
+    history.record({ label: `Create ${group.label}`, undo: removeGroup, redo: addGroup });
+  };
+
+  // Drag-and-drop in the AssetPanel tree. The viewer keeps the asset's placement
+  // in the scene and makes its transform local to the new parent.
+  const handleReparentAsset = (id: string, parentId: string | null) => {
+    const asset = assets.find(candidate => candidate.id === id);
+    if (!asset || id === parentId || (asset.parentId ?? null) === parentId) return;
+    // Refuse to move an asset under one of its own descendants.
+    const visited = new Set<string>();
+    let ancestorId: string | undefined = parentId ?? undefined;
+    while (ancestorId && !visited.has(ancestorId)) {
+      if (ancestorId === id) return;
+      visited.add(ancestorId);
+      ancestorId = assets.find(candidate => candidate.id === ancestorId)?.parentId;
     }
-    setAssets(prevAssets => prevAssets.filter(asset => asset.id !== idToDelete));
+
+    const previousParentId = asset.parentId;
+    const setParent = (newParentId: string | undefined) => () => setAssets(prevAssets =>
+      prevAssets.map(candidate => (candidate.id === id ? { ...candidate, parentId: newParentId } : candidate))
+    );
+    setParent(parentId ?? undefined)();
+    history.record({
+      label: `Move ${asset.label}`,
+      undo: setParent(previousParentId),
+      redo: setParent(parentId ?? undefined),
+    });
   };
 
   const handleToggleVisibility = (idToToggle: string) => {
-    setAssets(prevAssets =>
+    const toggle = () => setAssets(prevAssets =>
       prevAssets.map(asset =>
         asset.id === idToToggle ? { ...asset, visible: !asset.visible } : asset
       )
     );
+    toggle();
+    history.record({ label: 'Toggle visibility', undo: toggle, redo: toggle });
   };
   
+  const handlePointDisplayChange = (id: string, display: PointCloudDisplay) => {
+    const before = assets.find(asset => asset.id === id)?.pointDisplay;
+    const setDisplay = (value: PointCloudDisplay | undefined) => setAssets(prevAssets =>
+      prevAssets.map(asset => asset.id === id ? { ...asset, pointDisplay: value } : asset)
+    );
+    setDisplay(display);
+    history.record({
+      label: 'Edit point display',
+      mergeKey: `pointDisplay:${id}`,
+      undo: () => setDisplay(before),
+      redo: () => setDisplay(display),
+    });
+  };
+  
+  const handleAddMeasurement = (kind: Measurement['kind'], points: Vector3[]) => {
+    const measurement: Measurement = { id: crypto.randomUUID(), kind, points };
+    setMeasurements(prev => [...prev, measurement]);
+    history.record({
+      label: `Measure ${kind}`,
+      undo: () => setMeasurements(prev => prev.filter(item => item.id !== measurement.id)),
+      redo: () => setMeasurements(prev => [...prev, measurement]),
+    });
+  };
+
+  const handleDeleteMeasurement = (id: string) => {
+    const index = measurements.findIndex(item => item.id === id);
+    if (index === -1) return;
+    const measurement = measurements[index];
+    setMeasurements(prev => prev.filter(item => item.id !== id));
+    history.record({
+      label: 'Delete measurement',
+      undo: () => setMeasurements(prev => {
+        const restored = [...prev];
+        restored.splice(Math.min(index, restored.length), 0, measurement);
+        return restored;
+      }),
+      redo: () => setMeasurements(prev => prev.filter(item => item.id !== id)),
+    });
+  };
+
   const handleSaveScene = async () => {
     if (!threeDViewerRef.current) {
         alert("3D Viewer is not ready.");
@@ -376,44 +745,129 @@ function App() {
         return;
     }
 
-    const transformsMap = new Map(sceneData.map(item => [item.id, item.transform]));
-    const manifest = {
+    const transformsMap = new Map<string, AssetTransform>(sceneData.map(item => [item.id, item.transform]));
+    const zip = new JSZip();
+    const manifest: SceneManifest = {
+        version: SCENE_MANIFEST_VERSION,
+        metadata: { name: project.name, createdAt: new Date().toISOString(), generator: 'SceneCraft Editor' },
         intrinsics: intrinsics,
-        assets: [] as {fileName: string, label: string, transform: AssetTransform}[]
+        sourceImage: null,
+        // Transforms are in scene space; parentId records the hierarchy.
+        assets: [],
+        cameras: [],
+        activeCameraId: activeCameraId,
+        measurements: measurements,
     };
 
-    const zip = new JSZip();
+    const sourceImageMatch = sourceImage?.match(/^data:image\/([a-z]+)[^;]*;base64,(.*)$/);
+    if (sourceImageMatch) {
+        const fileName = `source_image.${sourceImageMatch[1]}`;
+        zip.file(fileName, sourceImageMatch[2], { base64: true });
+        manifest.sourceImage = { fileName, visible: showSourceImage };
+
+        const maskMatch = segmentationMask?.match(/^data:image\/([a-z]+)[^;]*;base64,(.*)$/);
+        if (maskMatch) {
+            const maskFileName = `segmentation_mask.${maskMatch[1]}`;
+            zip.file(maskFileName, maskMatch[2], { base64: true });
+            manifest.sourceImage.maskFileName = maskFileName;
+        }
+    }
+
+    cameras.forEach(camera => {
+        const image = camera.sourceImage?.match(/^data:image\/([a-z]+)[^;]*;base64,(.*)$/);
+        const imageFileName = image ? `camera_${camera.id.substring(0, 8)}.${image[1]}` : undefined;
+        if (image && imageFileName) {
+            zip.file(imageFileName, image[2], { base64: true });
+        }
+        manifest.cameras.push({
+            id: camera.id,
+            name: camera.name,
+            intrinsics: camera.intrinsics,
+            extrinsics: camera.extrinsics,
+            imageFileName,
+        });
+    });
 
     assets.forEach(asset => {
         const transform = transformsMap.get(asset.id);
-        if (transform) {
-            const fileName = `${asset.label.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${asset.id.substring(0, 4)}.${asset.fileType}`;
-            manifest.assets.push({
-                fileName: fileName,
-                label: asset.label,
-                transform: transform
-            });
-            zip.file(fileName, asset.data);
+        if (!transform) return;
+        const common = {
+            id: asset.id,
+            label: asset.label,
+            fileType: asset.fileType,
+            visible: asset.visible,
+            source: asset.source,
+            transform,
+            parentId: asset.parentId,
+            semanticClass: asset.semanticClass,
+        };
+        if (asset.fileType === 'group') {
+            manifest.assets.push(common);
+            return;
         }
+        const baseName = `${asset.label.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${asset.id.substring(0, 4)}`;
+        const fileName = `${baseName}.${asset.fileType}`;
+        let resources: Record<string, string> | undefined;
+        if (asset.resources) {
+            resources = {};
+            for (const [path, blob] of Object.entries(asset.resources)) {
+                resources[path] = `${baseName}_files/${path}`;
+                zip.file(resources[path], blob);
+            }
+        }
+        manifest.assets.push({ ...common, fileName, resources, pointDisplay: asset.pointDisplay });
+        zip.file(fileName, asset.data);
     });
 
     zip.file("scene.json", JSON.stringify(manifest, null, 2));
 
     try {
-        const content = await zip.generateAsync({ type: "blob" });
-        const link = document.createElement("a");
-        link.href = URL.createObjectURL(content);
-        link.download = "scenecraft-export.zip";
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(link.href);
+        downloadBlob(await zip.generateAsync({ type: "blob" }), "scenecraft-export.zip");
     } catch (error) {
         console.error("Failed to generate zip file", error);
         alert("Error creating scene file. See console for details.");
     }
   };
 
+  // Bakes the visible scene into one GLB that other 3D tools can open.
+  const handleExportGlb = async () => {
+    if (!threeDViewerRef.current) {
+        alert("3D Viewer is not ready.");
+        return;
+    }
+    try {
+        const glb = await threeDViewerRef.current.exportGlb();
+        downloadBlob(new Blob([glb], { type: 'model/gltf-binary' }), "scenecraft-scene.glb");
+    } catch (error) {
+        console.error("Failed to export GLB", error);
+        alert(`Error exporting GLB: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Renders the calibrated view into RGB, depth, normal and instance mask images for datasets.
+  const handleRenderImages = async () => {
+    if (!threeDViewerRef.current) {
+        alert("3D Viewer is not ready.");
+        return;
+    }
+    setIsLoading(true);
+    try {
+        const render = await threeDViewerRef.current.renderCameraImages();
+        const extrinsics = cameras.find(camera => camera.id === activeCameraId)?.extrinsics ?? IDENTITY_EXTRINSICS;
+        // render.json describes the camera the images were rendered with.
+        const renderIntrinsics = applyLensDistortion ? intrinsics : { ...intrinsics, distortion: undefined };
+        const files = await buildRenderFiles(render, assets, renderIntrinsics, extrinsics);
+        const zip = new JSZip();
+        Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+        downloadBlob(await zip.generateAsync({ type: "blob" }), "scenecraft-render.zip");
+    } catch (error) {
+        console.error("Failed to render images", error);
+        alert(`Error rendering images: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+        setIsLoading(false);
+    }
+  };
+
   const handleLoadScene = async (file: File) => {
     if (!file) return;
 
@@ -429,51 +883,111 @@ function App() {
         }
 
         const manifestContent = await manifestFile.async("string");
-        const manifest = JSON.parse(manifestContent);
-
-        if (!manifest.assets || !Array.isArray(manifest.assets)) {
-            throw new Error("Invalid scene.json format.");
-        }
+        const manifest = parseSceneManifest(JSON.parse(manifestContent), defaultIntrinsics);
+        // Problems that only skip part of the scene; reported once loading finishes.
+        const skipped: string[] = [];
 
-        if (manifest.intrinsics) {
-            setIntrinsics(manifest.intrinsics as CameraIntrinsics);
-        }
-        
         // Clear current scene
+        threeDViewerRef.current?.clearScene();
+        history.clear();
         setAssets([]);
-        setActiveAssetId(null);
+        setSelectedAssetIds([]);
         setActiveAssetTransform(null);
+        setIntrinsics(manifest.intrinsics);
+        setMeasurements(manifest.measurements);
+
+        const readImage = async (fileName: string): Promise<string | null> => {
+            const imageFile = zip.file(fileName);
+            if (!imageFile) {
+                skipped.push(`Image ${fileName} is missing from the zip.`);
+                return null;
+            }
+            const extension = fileName.split('.').pop()?.toLowerCase();
+            return `data:image/${extension === 'jpg' ? 'jpeg' : extension};base64,${await imageFile.async("base64")}`;
+        };
 
-        const newAssetsPromises = manifest.assets.map(async (assetInfo: { fileName: string; label: string; transform: AssetTransform }) => {
-            const assetFile = zip.file(assetInfo.fileName);
+        const loadedCameras: SceneCamera[] = await Promise.all(manifest.cameras.map(async (cameraInfo): Promise<SceneCamera> => ({
+            id: cameraInfo.id,
+            name: cameraInfo.name,
+            intrinsics: cameraInfo.intrinsics,
+            extrinsics: cameraInfo.extrinsics,
+            sourceImage: cameraInfo.imageFileName ? await readImage(cameraInfo.imageFileName) : null,
+        })));
+        const loadedActiveCamera = loadedCameras.find(camera => camera.id === manifest.activeCameraId);
+        setCameras(loadedCameras);
+        setActiveCameraId(loadedActiveCamera?.id ?? null);
+
+        const loadedSourceImage = manifest.sourceImage ? await readImage(manifest.sourceImage.fileName) : null;
+        if (loadedSourceImage) {
+            setSourceImage(loadedSourceImage);
+            setShowSourceImage(manifest.sourceImage?.visible ?? false);
+        } else if (loadedActiveCamera?.sourceImage) {
+            setSourceImage(loadedActiveCamera.sourceImage);
+            setShowSourceImage(true);
+        } else {
+            setSourceImage(null);
+            setShowSourceImage(false);
+        }
+        const maskFileName = loadedSourceImage ? manifest.sourceImage?.maskFileName : undefined;
+        setSegmentationMask(maskFileName ? await readImage(maskFileName) : null);
+
+        const newAssetsPromises = manifest.assets.map(async (assetInfo): Promise<ThreeDAsset | null> => {
+            const common = {
+                id: assetInfo.id,
+                label: assetInfo.label,
+                source: assetInfo.source,
+                visible: assetInfo.visible,
+                initialTransform: assetInfo.transform,
+                parentId: assetInfo.parentId,
+                semanticClass: assetInfo.semanticClass,
+            };
+            if (assetInfo.fileType === 'group') {
+                return { ...common, data: new Blob(), fileType: 'group' };
+            }
+            const assetFile = assetInfo.fileName ? zip.file(assetInfo.fileName) : null;
             if (!assetFile) {
-                console.warn(`File ${assetInfo.fileName} not found in zip, skipping.`);
+                skipped.push(`"${assetInfo.label}": ${assetInfo.fileName} is missing from the zip.`);
                 return null;
             }
-            
             const fileData = await assetFile.async("blob");
-            const extension = assetInfo.fileName.split('.').pop()?.toLowerCase();
-            
-            if (extension !== 'ply' && extension !== 'glb') {
-                console.warn(`Unsupported file type for ${assetInfo.fileName}, skipping.`);
-                return null;
+
+            let resources: Record<string, Blob> | undefined;
+            if (assetInfo.resources) {
+                resources = {};
+                for (const [path, zipPath] of Object.entries(assetInfo.resources)) {
+                    const resourceFile = zip.file(zipPath);
+                    if (resourceFile) {
+                        resources[path] = await resourceFile.async("blob");
+                    } else {
+                        skipped.push(`"${assetInfo.label}": resource ${zipPath} is missing from the zip.`);
+                    }
+                }
             }
 
-            const newAsset: ThreeDAsset = {
-                id: crypto.randomUUID(),
+            return {
+                ...common,
                 data: fileData,
-                fileType: extension as 'ply' | 'glb',
-                label: assetInfo.label,
-                source: 'upload',
-                visible: true,
-                initialTransform: assetInfo.transform,
+                fileType: assetInfo.fileType,
+                resources,
+                pointDisplay: assetInfo.pointDisplay,
             };
-            return newAsset;
         });
 
-        const resolvedAssets = (await Promise.all(newAssetsPromises)).filter((asset): asset is ThreeDAsset => asset !== null);
+        const loadedAssets = (await Promise.all(newAssetsPromises)).filter((asset): asset is ThreeDAsset => asset !== null);
+        // Transforms are stored in world space, so an asset whose parent is missing
+        // (never saved, or skipped above) keeps its place at the top level.
+        const loadedIds = new Set(loadedAssets.map(asset => asset.id));
+        const resolvedAssets = loadedAssets.map(asset => {
+            if (!asset.parentId || loadedIds.has(asset.parentId)) return asset;
+            skipped.push(`"${asset.label}": its parent ${asset.parentId} is not in the scene, so it was moved to the top level.`);
+            return { ...asset, parentId: undefined };
+        });
 
         setAssets(resolvedAssets);
+        if (skipped.length > 0) {
+            console.warn("Scene loaded with problems:", skipped);
+            alert(`The scene was loaded, but some parts were skipped:\n${skipped.map(item => `• ${item}`).join('\n')}`);
+        }
 
     } catch (error) {
         console.error("Failed to load scene:", error);
@@ -483,21 +997,235 @@ function App() {
     }
   };
 
+  // Captures the project as it is now; live transforms come from the viewer.
+  const snapshotProject = (): StoredProject => {
+    const transforms = new Map<string, AssetTransform>(
+      (threeDViewerRef.current?.getSceneData() ?? []).map(item => [item.id, item.transform])
+    );
+    return {
+      id: project.id,
+      name: project.name,
+      updatedAt: Date.now(),
+      data: {
+        assets: assets.map(asset => {
+          const transform = transforms.get(asset.id);
+          // Assets still loading keep the placement they were added with.
+          return transform
+            ? { ...asset, initialTransform: transform, transformOrigin: 'center', placeBesideScene: undefined }
+            : asset;
+        }),
+        intrinsics,
+        sourceImage,
+        showSourceImage,
+        cameras,
+        activeCameraId,
+        conversation: chatSession.getTurns(),
+        responseParts,
+        measurements,
+        segmentationMask,
+      },
+    };
+  };
+
+  // A fresh, untouched project is not stored until there is something in it.
+  const hasProjectContent = () =>
+    isProjectPersistedRef.current || assets.length > 0 || conversationLength > 0 || sourceImage !== null;
+
+  const saveCurrentProject = async () => {
+    if (!hasProjectContent()) return;
+    const stored = snapshotProject();
+    await saveProject(stored);
+    isProjectPersistedRef.current = true;
+    setLastProjectId(stored.id);
+  };
+  const saveCurrentProjectRef = useRef(saveCurrentProject);
+  saveCurrentProjectRef.current = saveCurrentProject;
+
+  const applyProject = (stored: StoredProject) => {
+    const { data } = stored;
+    threeDViewerRef.current?.clearScene();
+    history.clear();
+    chatSession.restore(data.conversation);
+    setConversationLength(data.conversation.length);
+    setResponseParts(data.responseParts);
+    setAssets(data.assets);
+    setSelectedAssetIds([]);
+    setActiveAssetTransform(null);
+    setIntrinsics(data.intrinsics);
+    setSourceImage(data.sourceImage);
+    setShowSourceImage(data.showSourceImage);
+    setCameras(data.cameras);
+    setActiveCameraId(data.activeCameraId);
+    setMeasurements(data.measurements ?? []);
+    setSegmentationMask(data.segmentationMask ?? null);
+    setProject({ id: stored.id, name: stored.name });
+    isProjectPersistedRef.current = true;
+    setLastProjectId(stored.id);
+  };
+
+  const resetProject = () => {
+    threeDViewerRef.current?.clearScene();
+    history.clear();
+    chatSession.reset();
+    setConversationLength(0);
+    setResponseParts([]);
+    setAssets([]);
+    setSelectedAssetIds([]);
+    setActiveAssetTransform(null);
+    setIntrinsics(defaultIntrinsics);
+    setSourceImage(null);
+    setShowSourceImage(false);
+    setCameras([]);
+    setActiveCameraId(null);
+    setMeasurements([]);
+    setSegmentationMask(null);
+    setPromptImages([]);
+    setProject({ id: crypto.randomUUID(), name: UNTITLED_PROJECT_NAME });
+    isProjectPersistedRef.current = false;
+    setLastProjectId(null);
+  };
+
+  // Reopen the last project on startup.
+  useEffect(() => {
+    const lastProjectId = getLastProjectId();
+    (lastProjectId ? loadProject(lastProjectId) : Promise.resolve(null))
+      .then(stored => {
+        if (stored) applyProject(stored);
+      })
+      .catch(error => console.error("Failed to restore the last project:", error))
+      .finally(() => setIsRestoringProject(false));
+  }, []);
+
+  // Autosave shortly after the last change; history changes cover gizmo edits.
+  useEffect(() => {
+    if (isRestoringProject || isLoading) return;
+    const timeout = setTimeout(() => {
+      saveCurrentProjectRef.current().catch(error => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isRestoringProject, isLoading, project, assets, intrinsics, sourceImage, showSourceImage, cameras, activeCameraId, conversationLength, responseParts, measurements, segmentationMask, historyState]);
+
+  // Don't lose the last second of edits when the tab is closed or hidden.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveCurrentProjectRef.current().catch(error => console.error("Autosave failed:", error));
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  const handleOpenProjectBrowser = async () => {
+    try {
+      await saveCurrentProject();
+      setProjectList(await listProjects());
+    } catch (error) {
+      console.error("Failed to list projects:", error);
+      alert(`Error opening projects: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      await saveCurrentProject();
+      const stored = await loadProject(id);
+      if (!stored) throw new Error("The project no longer exists.");
+      applyProject(stored);
+      setProjectList(null);
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      alert(`Error opening project: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleNewProject = async () => {
+    try {
+      await saveCurrentProject();
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      if (!window.confirm("The current project could not be saved. Start a new project anyway?")) return;
+    }
+    resetProject();
+    setProjectList(null);
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    try {
+      if (id === project.id) {
+        // The autosave picks up the new name, even before the project was first stored.
+        setProject({ id, name });
+      } else {
+        await renameProject(id, name);
+      }
+      setProjectList(prevList => prevList?.map(item => item.id === id ? { ...item, name } : item) ?? null);
+    } catch (error) {
+      console.error("Failed to rename project:", error);
+      alert(`Error renaming project: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === project.id) resetProject();
+      setProjectList(prevList => prevList?.filter(item => item.id !== id) ?? null);
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      alert(`Error deleting project: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   return (
     <div className="flex h-screen w-screen bg-gray-900 text-white">
+      {projectList && (
+        <ProjectBrowser
+          projects={projectList}
+          currentProjectId={project.id}
+          onOpen={handleOpenProject}
+          onNew={handleNewProject}
+          onRename={handleRenameProject}
+          onDelete={handleDeleteProject}
+          onClose={() => setProjectList(null)}
+        />
+      )}
       <SidePanel
         prompt={prompt}
         setPrompt={setPrompt}
         serverEndpoint={serverEndpoint}
         setServerEndpoint={setServerEndpoint}
         intrinsics={intrinsics}
-        setIntrinsics={setIntrinsics}
+        setIntrinsics={handleIntrinsicsEdit}
+        generationMode={generationMode}
+        setGenerationMode={setGenerationMode}
+        hasSelection={activeAssetId !== null}
+        conversationLength={conversationLength}
+        onResetConversation={() => { chatSession.reset(); setConversationLength(0); }}
+        onDownloadRecording={handleDownloadRecording}
+        includeSceneContext={includeSceneContext}
+        promptImages={promptImages}
+        onAddPromptImages={handleAddPromptImages}
+        onRemovePromptImage={(id) => setPromptImages(prevImages => prevImages.filter(image => image.id !== id))}
+        setIncludeSceneContext={setIncludeSceneContext}
         onStart={handleStart}
+        onCancel={handleCancel}
         isLoading={isLoading}
         onFileUpload={handleFileUpload}
         sourceImage={sourceImage}
         showSourceImage={showSourceImage}
         setShowSourceImage={setShowSourceImage}
+        reprojection={reprojection}
+        setReprojection={setReprojection}
+        hasSegmentationMask={segmentationMask !== null}
+        onLoadSegmentationMask={handleLoadSegmentationMask}
+        onClearSegmentationMask={() => setSegmentationMask(null)}
+        onDeriveIntrinsicsFromImage={handleDeriveIntrinsicsFromImage}
+        onImportIntrinsics={handleImportIntrinsics}
+        onExportIntrinsics={handleExportIntrinsics}
+        applyLensDistortion={applyLensDistortion}
+        setApplyLensDistortion={setApplyLensDistortion}
+        projectName={project.name}
+        onOpenProjects={handleOpenProjectBrowser}
       />
       <main className="flex-1 flex flex-col p-4 space-y-4">
         <div className="flex-1 bg-gray-700 rounded-lg overflow-hidden flex justify-center items-center">
@@ -514,11 +1242,24 @@ function App() {
               ref={threeDViewerRef}
               assets={assets}
               intrinsics={intrinsics}
-              activeAssetId={activeAssetId}
+              selectedAssetIds={selectedAssetIds}
+              onSelectionChange={handleSelectionChange}
               activeAssetTransform={activeAssetTransform}
               onTransformChange={setActiveAssetTransform}
               sourceImage={sourceImage}
               showSourceImage={showSourceImage}
+              history={history}
+              cameras={cameras}
+              activeCameraId={activeCameraId}
+              onSelectCamera={handleSelectCamera}
+              onDropFiles={handleDropFiles}
+              snapSettings={snapSettings}
+              showGrid={showGrid}
+              measurements={measurements}
+              onAddMeasurement={handleAddMeasurement}
+              reprojection={reprojection}
+              segmentationMask={segmentationMask}
+              applyLensDistortion={applyLensDistortion}
              />
            </div>
         </div>
@@ -549,14 +1290,32 @@ function App() {
       </main>
       <AssetPanel 
         assets={assets} 
-        activeAssetId={activeAssetId} 
+        selectedAssetIds={selectedAssetIds}
         onSelectAsset={handleSelectAsset}
+        onGroupSelection={handleGroupSelection}
+        onReparentAsset={handleReparentAsset}
         activeAssetTransform={activeAssetTransform}
-        onTransformChange={setActiveAssetTransform}
+        onTransformChange={handleTransformEdit}
         onDeleteAsset={handleDeleteAsset}
         onToggleVisibility={handleToggleVisibility}
+        onPointDisplayChange={handlePointDisplayChange}
+        snapSettings={snapSettings}
+        onSnapSettingsChange={setSnapSettings}
+        showGrid={showGrid}
+        onShowGridChange={setShowGrid}
+        onDropToSurface={() => threeDViewerRef.current?.dropToSurface(selectedAssetIds)}
+        onAlign={(axis, mode) => threeDViewerRef.current?.alignAssets(selectedAssetIds, axis, mode)}
+        onDistribute={(axis) => threeDViewerRef.current?.distributeAssets(selectedAssetIds, axis)}
+        measurements={measurements}
+        onDeleteMeasurement={handleDeleteMeasurement}
         onSaveScene={handleSaveScene}
+        onExportGlb={handleExportGlb}
+        onRenderImages={handleRenderImages}
         onLoadScene={handleLoadScene}
+        canUndo={historyState.canUndo}
+        canRedo={historyState.canRedo}
+        onUndo={() => threeDViewerRef.current?.undo()}
+        onRedo={() => threeDViewerRef.current?.redo()}
       />
     </div>
   );
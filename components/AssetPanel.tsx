@@ -1,16 +1,36 @@
-import React, { useRef, ChangeEvent } from 'react';
-import { ThreeDAsset, AssetTransform, Vector3 } from '../types';
+import React, { useRef, useState, ChangeEvent, DragEvent } from 'react';
+import { ThreeDAsset, AssetTransform, Vector3, PointCloudDisplay, SnapSettings, AlignMode, Measurement } from '../types';
+import { DEFAULT_POINT_DISPLAY } from '../services/pointCloud';
+import { formatMeasurement } from '../services/measurements';
 
 interface AssetPanelProps {
   assets: ThreeDAsset[];
-  activeAssetId: string | null;
-  onSelectAsset: (id: string | null) => void;
+  selectedAssetIds: string[];
+  onSelectAsset: (id: string, additive: boolean) => void;
+  onGroupSelection: () => void;
+  onReparentAsset: (id: string, parentId: string | null) => void;
   activeAssetTransform: AssetTransform | null;
   onTransformChange: (transform: AssetTransform) => void;
   onDeleteAsset: (id: string) => void;
   onToggleVisibility: (id: string) => void;
+  onPointDisplayChange: (id: string, display: PointCloudDisplay) => void;
+  snapSettings: SnapSettings;
+  onSnapSettingsChange: (settings: SnapSettings) => void;
+  showGrid: boolean;
+  onShowGridChange: (show: boolean) => void;
+  onDropToSurface: () => void;
+  onAlign: (axis: keyof Vector3, mode: AlignMode) => void;
+  onDistribute: (axis: keyof Vector3) => void;
+  measurements: Measurement[];
+  onDeleteMeasurement: (id: string) => void;
   onSaveScene: () => void;
+  onExportGlb: () => void;
+  onRenderImages: () => void;
   onLoadScene: (file: File) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 const TransformInput: React.FC<{ label: string; value: number; onChange: (value: number) => void; }> = ({ label, value, onChange }) => (
@@ -44,8 +64,82 @@ const TransformInputGroup: React.FC<{
 );
 
 
-const AssetPanel: React.FC<AssetPanelProps> = ({ assets, activeAssetId, onSelectAsset, activeAssetTransform, onTransformChange, onDeleteAsset, onToggleVisibility, onSaveScene, onLoadScene }) => {
+const SnapInput: React.FC<{ label: string; value: number; step: number; onChange: (value: number) => void; }> = ({ label, value, step, onChange }) => (
+  <label className="block text-xs font-medium text-gray-400">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+      className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white sm:text-sm"
+    />
+  </label>
+);
+
+const ALIGN_AXES: (keyof Vector3)[] = ['x', 'y', 'z'];
+const ALIGN_MODES: { mode: AlignMode; label: string }[] = [
+  { mode: 'min', label: 'Min' },
+  { mode: 'center', label: 'Center' },
+  { mode: 'max', label: 'Max' },
+];
+
+
+// Drag payload type for reparenting, so files dragged in from outside are ignored.
+const ASSET_DRAG_TYPE = 'application/x-scenecraft-asset';
+const ROOT_DROP_TARGET = '';
+
+// Lists assets depth-first so children follow their parent; unknown parents are treated as roots.
+const flattenHierarchy = (assets: ThreeDAsset[]): { asset: ThreeDAsset; depth: number }[] => {
+  const ids = new Set(assets.map(asset => asset.id));
+  const children = new Map<string | undefined, ThreeDAsset[]>();
+  assets.forEach(asset => {
+    const parentId = asset.parentId && ids.has(asset.parentId) && asset.parentId !== asset.id ? asset.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) ?? []), asset]);
+  });
+
+  const result: { asset: ThreeDAsset; depth: number }[] = [];
+  const visited = new Set<string>();
+  const visit = (parentId: string | undefined, depth: number) => {
+    (children.get(parentId) ?? []).forEach(asset => {
+      if (visited.has(asset.id)) return;
+      visited.add(asset.id);
+      result.push({ asset, depth });
+      visit(asset.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  // Assets caught in a parent cycle are never reached from a root; list them at the top level.
+  assets.filter(asset => !visited.has(asset.id)).forEach(asset => result.push({ asset, depth: 0 }));
+  return result;
+};
+
+const AssetPanel: React.FC<AssetPanelProps> = ({ assets, selectedAssetIds, onSelectAsset, onGroupSelection, onReparentAsset, activeAssetTransform, onTransformChange, onDeleteAsset, onToggleVisibility, onPointDisplayChange, snapSettings, onSnapSettingsChange, showGrid, onShowGridChange, onDropToSurface, onAlign, onDistribute, measurements, onDeleteMeasurement, onSaveScene, onExportGlb, onRenderImages, onLoadScene, canUndo, canRedo, onUndo, onRedo }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = new Set(selectedAssetIds);
+  const singleSelection = selectedAssetIds.length === 1 ? assets.find(asset => asset.id === selectedAssetIds[0]) : undefined;
+  const pointDisplay = singleSelection?.pointDisplay ?? DEFAULT_POINT_DISPLAY;
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const handleDragOver = (event: DragEvent, targetId: string | null) => {
+    if (!event.dataTransfer.types.includes(ASSET_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = 'move';
+    setDropTargetId(targetId ?? ROOT_DROP_TARGET);
+  };
+
+  const handleDrop = (event: DragEvent, targetId: string | null) => {
+    const id = event.dataTransfer.getData(ASSET_DRAG_TYPE);
+    if (!id) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDraggingId(null);
+    setDropTargetId(null);
+    onReparentAsset(id, targetId);
+  };
 
   const handleTransformValueChange = (
     type: keyof AssetTransform,
@@ -54,8 +148,11 @@ const AssetPanel: React.FC<AssetPanelProps> = ({ assets, activeAssetId, onSelect
   ) => {
     if (!activeAssetTransform) return;
     
-    const newTransform = { ...activeAssetTransform };
-    (newTransform[type] as Vector3)[axis] = value;
+    // Copy the nested vector too so the previous transform stays intact for undo.
+    const newTransform = {
+      ...activeAssetTransform,
+      [type]: { ...activeAssetTransform[type], [axis]: value },
+    };
     
     onTransformChange(newTransform);
   };
@@ -78,35 +175,88 @@ const AssetPanel: React.FC<AssetPanelProps> = ({ assets, activeAssetId, onSelect
   return (
     <div className="w-72 bg-gray-800 p-4 flex flex-col h-full overflow-y-auto border-l border-gray-700">
       <div className="flex-grow">
-        <h2 className="text-xl font-bold text-white mb-4">3D Assets</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">3D Assets</h2>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={onGroupSelection}
+              disabled={selectedAssetIds.length === 0}
+              className="p-1 rounded-md text-gray-300 hover:bg-gray-600 disabled:text-gray-600 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              aria-label="Group selected assets"
+              title="Group Selection"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+              </svg>
+            </button>
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="p-1 rounded-md text-gray-300 hover:bg-gray-600 disabled:text-gray-600 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              aria-label="Undo"
+              title="Undo (Ctrl+Z)"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a5 5 0 010 10H9M3 10l4-4M3 10l4 4" />
+              </svg>
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="p-1 rounded-md text-gray-300 hover:bg-gray-600 disabled:text-gray-600 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              aria-label="Redo"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M21 10H11a5 5 0 000 10h4m6-10l-4-4m4 4l-4 4" />
+              </svg>
+            </button>
+          </div>
+        </div>
         {assets.length === 0 ? (
           <p className="text-gray-400 text-sm">No assets loaded yet.</p>
         ) : (
           <ul className="space-y-2">
-            {assets.map((asset) => (
+            {flattenHierarchy(assets).map(({ asset, depth }) => (
               <li
                 key={asset.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(ASSET_DRAG_TYPE, asset.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggingId(asset.id);
+                }}
+                onDragEnd={() => { setDraggingId(null); setDropTargetId(null); }}
+                onDragOver={(e) => handleDragOver(e, asset.id)}
+                onDragLeave={() => setDropTargetId(prevId => (prevId === asset.id ? null : prevId))}
+                onDrop={(e) => handleDrop(e, asset.id)}
+                style={{ marginLeft: `${depth * 0.75}rem` }}
                 className={`flex items-center p-1.5 rounded-md transition-all duration-150 ${
-                  asset.id === activeAssetId
+                  selected.has(asset.id)
                     ? 'bg-indigo-600 text-white'
                     : 'bg-gray-700 text-gray-200'
-                } ${!asset.visible ? 'opacity-60' : ''}`}
+                } ${!asset.visible ? 'opacity-60' : ''} ${
+                  dropTargetId === asset.id && draggingId !== asset.id ? 'ring-2 ring-indigo-400' : ''
+                }`}
+                title="Drag onto another asset to nest it"
               >
                 <button
-                  onClick={() => onSelectAsset(asset.id === activeAssetId ? null : asset.id)}
+                  onClick={(e) => onSelectAsset(asset.id, e.shiftKey || e.ctrlKey || e.metaKey)}
                   className="flex-grow text-left p-1"
                   aria-label={`Select ${asset.label}`}
+                  title="Click to select, Shift/Ctrl+Click to add to the selection"
                 >
                   <p className="font-semibold truncate">{asset.label}</p>
-                  <p className={`text-xs ${asset.id === activeAssetId ? 'text-indigo-200' : 'text-gray-400'}`}>
+                  <p className={`text-xs ${selected.has(asset.id) ? 'text-indigo-200' : 'text-gray-400'}`}>
                     Source: {asset.source} | Type: {asset.fileType.toUpperCase()}
+                    {asset.semanticClass && <> | Class: {asset.semanticClass}</>}
                   </p>
                 </button>
                 <div className="flex items-center space-x-1 pl-2">
                   <button
                     onClick={(e) => { e.stopPropagation(); onToggleVisibility(asset.id); }}
                     className={`p-1 rounded-md ${
-                      asset.id === activeAssetId ? 'hover:bg-indigo-500' : 'hover:bg-gray-600'
+                      selected.has(asset.id) ? 'hover:bg-indigo-500' : 'hover:bg-gray-600'
                     }`}
                     aria-label={asset.visible ? `Hide ${asset.label}` : `Show ${asset.label}`}
                     title={asset.visible ? 'Hide asset' : 'Show asset'}
@@ -125,7 +275,7 @@ const AssetPanel: React.FC<AssetPanelProps> = ({ assets, activeAssetId, onSelect
                   <button
                     onClick={(e) => { e.stopPropagation(); onDeleteAsset(asset.id); }}
                     className={`p-1 rounded-md ${
-                      asset.id === activeAssetId ? 'hover:bg-indigo-500' : 'hover:bg-gray-600'
+                      selected.has(asset.id) ? 'hover:bg-indigo-500' : 'hover:bg-gray-600'
                     } text-gray-400 hover:text-red-400`}
                     aria-label={`Delete ${asset.label}`}
                     title="Delete asset"
@@ -137,10 +287,27 @@ const AssetPanel: React.FC<AssetPanelProps> = ({ assets, activeAssetId, onSelect
                 </div>
               </li>
             ))}
+            {draggingId && (
+              <li
+                onDragOver={(e) => handleDragOver(e, null)}
+                onDrop={(e) => handleDrop(e, null)}
+                className={`p-2 rounded-md border border-dashed text-center text-xs ${
+                  dropTargetId === ROOT_DROP_TARGET ? 'border-indigo-400 text-indigo-300' : 'border-gray-600 text-gray-400'
+                }`}
+              >
+                Drop here to move to the top level
+              </li>
+            )}
           </ul>
         )}
 
-        {activeAssetId && activeAssetTransform && (
+        {selectedAssetIds.length > 1 && (
+          <p className="border-t border-gray-700 pt-4 mt-4 text-sm text-gray-400">
+            {selectedAssetIds.length} assets selected. Use the gizmo to transform them together.
+          </p>
+        )}
+
+        {selectedAssetIds.length === 1 && activeAssetTransform && (
           <div className="border-t border-gray-700 pt-4 mt-4 space-y-4">
               <h3 className="text-lg font-semibold text-white">Transform</h3>
               <TransformInputGroup 
@@ -160,6 +327,139 @@ const AssetPanel: React.FC<AssetPanelProps> = ({ assets, activeAssetId, onSelect
               />
           </div>
         )}
+
+        {selectedAssetIds.length > 0 && (
+          <div className="border-t border-gray-700 pt-4 mt-4 space-y-3">
+              <h3 className="text-lg font-semibold text-white">Arrange</h3>
+              <button
+                onClick={onDropToSurface}
+                className="w-full py-1 rounded-md text-sm bg-gray-700 text-gray-200 hover:bg-gray-600"
+                title="Move down onto the asset or grid beneath"
+              >
+                Drop to Surface
+              </button>
+              {selectedAssetIds.length > 1 && (
+                <div className="space-y-1">
+                  <p className="text-xs text-gray-500">Align to the selection's bounds. Y points down, so Y Min is the top.</p>
+                  {ALIGN_AXES.map(axis => (
+                    <div key={axis} className="flex items-center space-x-1">
+                      <span className="w-6 text-sm text-gray-400 uppercase">{axis}</span>
+                      {ALIGN_MODES.map(({ mode, label }) => (
+                        <button
+                          key={mode}
+                          onClick={() => onAlign(axis, mode)}
+                          className="flex-1 py-1 rounded-md text-xs bg-gray-700 text-gray-200 hover:bg-gray-600"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => onDistribute(axis)}
+                        disabled={selectedAssetIds.length < 3}
+                        className="flex-1 py-1 rounded-md text-xs bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed"
+                        title="Space the centers evenly (needs three or more assets)"
+                      >
+                        Distribute
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+          </div>
+        )}
+
+        {measurements.length > 0 && (
+          <div className="border-t border-gray-700 pt-4 mt-4 space-y-2">
+              <h3 className="text-lg font-semibold text-white">Measurements</h3>
+              <ul className="space-y-1">
+                {measurements.map((measurement, index) => (
+                  <li key={measurement.id} className="flex items-center justify-between text-sm text-gray-300">
+                    <span>
+                      {measurement.kind === 'distance' ? 'Distance' : 'Angle'} {index + 1}
+                    </span>
+                    <span className="flex items-center space-x-2">
+                      <span className="font-mono text-cyan-300">{formatMeasurement(measurement)}</span>
+                      <button
+                        onClick={() => onDeleteMeasurement(measurement.id)}
+                        className="p-1 rounded-md hover:bg-gray-600 text-gray-400 hover:text-red-400"
+                        aria-label={`Delete measurement ${index + 1}`}
+                        title="Delete measurement"
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+          </div>
+        )}
+
+        <div className="border-t border-gray-700 pt-4 mt-4 space-y-3">
+            <h3 className="text-lg font-semibold text-white">Snapping</h3>
+            <div className="flex items-center justify-between text-sm text-gray-300">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={snapSettings.enabled}
+                  onChange={(e) => onSnapSettingsChange({ ...snapSettings, enabled: e.target.checked })}
+                />
+                <span>Snap</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input type="checkbox" checked={showGrid} onChange={(e) => onShowGridChange(e.target.checked)} />
+                <span>Grid</span>
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <SnapInput label="Move" value={snapSettings.translation} step={0.05} onChange={(translation) => onSnapSettingsChange({ ...snapSettings, translation })} />
+              <SnapInput label="Rotate (°)" value={snapSettings.rotation} step={5} onChange={(rotation) => onSnapSettingsChange({ ...snapSettings, rotation })} />
+              <SnapInput label="Scale" value={snapSettings.scale} step={0.05} onChange={(scale) => onSnapSettingsChange({ ...snapSettings, scale })} />
+            </div>
+        </div>
+
+        {singleSelection?.fileType === 'ply' && (
+          <div className="border-t border-gray-700 pt-4 mt-4 space-y-3">
+              <h3 className="text-lg font-semibold text-white">Display</h3>
+              <div className="flex rounded-md overflow-hidden border border-gray-600">
+                {(['auto', 'mesh', 'points'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => onPointDisplayChange(singleSelection.id, { ...pointDisplay, mode })}
+                    className={`flex-1 py-1 text-sm capitalize ${
+                      pointDisplay.mode === mode ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Files without faces are always shown as points.</p>
+              <label className="block text-sm font-medium text-gray-300">
+                Point size: {pointDisplay.pointSize.toFixed(1)} px
+                <input
+                  type="range"
+                  min={0.5}
+                  max={10}
+                  step={0.5}
+                  value={pointDisplay.pointSize}
+                  onChange={(e) => onPointDisplayChange(singleSelection.id, { ...pointDisplay, pointSize: parseFloat(e.target.value) })}
+                  className="w-full mt-1"
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-300">
+                Color by
+                <select
+                  value={pointDisplay.colorBy}
+                  onChange={(e) => onPointDisplayChange(singleSelection.id, { ...pointDisplay, colorBy: e.target.value as PointCloudDisplay['colorBy'] })}
+                  className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white sm:text-sm"
+                >
+                  <option value="rgb">RGB</option>
+                  <option value="height">Height</option>
+                  <option value="intensity">Intensity</option>
+                </select>
+              </label>
+          </div>
+        )}
       </div>
 
       <div className="mt-4 pt-4 border-t border-gray-700 space-y-2">
@@ -194,6 +494,28 @@ const AssetPanel: React.FC<AssetPanelProps> = ({ assets, activeAssetId, onSelect
             </svg>
           Save Scene
         </button>
+        <button
+          onClick={onExportGlb}
+          disabled={assets.length === 0}
+          className="w-full flex justify-center items-center py-2 px-4 border border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-200 bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:text-gray-500 disabled:cursor-not-allowed"
+          title="Export the visible assets and cameras as a single glTF binary"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+          Export GLB
+        </button>
+        <button
+          onClick={onRenderImages}
+          disabled={assets.length === 0}
+          className="w-full flex justify-center items-center py-2 px-4 border border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-200 bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:text-gray-500 disabled:cursor-not-allowed"
+          title="Render the calibrated camera view at the image size: RGB, depth, normals and instance masks"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
+          </svg>
+          Render Images
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ProjectSummary } from '../types';
+
+interface ProjectBrowserProps {
+  projects: ProjectSummary[];
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Lists the projects kept in this browser; the current one autosaves as you work.
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ projects, currentProjectId, onOpen, onNew, onRename, onDelete, onClose }) => {
+  const handleRename = (project: ProjectSummary) => {
+    const name = window.prompt('Project name', project.name)?.trim();
+    if (name && name !== project.name) onRename(project.id, name);
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Projects"
+    >
+      <div className="w-[32rem] max-h-[80vh] flex flex-col bg-gray-800 rounded-lg shadow-xl p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-white">Projects</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close">✕</button>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">Projects are stored in this browser and saved automatically.</p>
+
+        {projects.length === 0 ? (
+          <p className="text-gray-400 text-sm">No saved projects yet.</p>
+        ) : (
+          <ul className="space-y-2 overflow-y-auto flex-1">
+            {projects.map(project => (
+              <li
+                key={project.id}
+                className={`flex items-center justify-between p-3 rounded-md ${
+                  project.id === currentProjectId ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300'
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{project.name}</p>
+                  <p className="text-xs opacity-75">
+                    {project.assetCount} asset{project.assetCount === 1 ? '' : 's'} · {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 text-sm flex-shrink-0 ml-2">
+                  {project.id !== currentProjectId && (
+                    <button onClick={() => onOpen(project.id)} className="px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white">Open</button>
+                  )}
+                  <button onClick={() => handleRename(project)} className="px-2 py-1 rounded-md hover:bg-gray-600">Rename</button>
+                  <button onClick={() => handleDelete(project)} className="px-2 py-1 rounded-md hover:bg-gray-600 hover:text-red-400">Delete</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          onClick={onNew}
+          className="mt-4 w-full py-2 px-4 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700"
+        >
+          New Project
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBrowser;
@@ -1,5 +1,7 @@
-import React, { ChangeEvent } from 'react';
-import { CameraIntrinsics } from '../types';
+import React, { ChangeEvent, ClipboardEvent, DragEvent, useRef, useState } from 'react';
+import { CameraIntrinsics, GenerationMode, LensDistortion, PromptImage, ReprojectionSettings } from '../types';
+import { UPLOAD_ACCEPT } from '../services/formatRegistry';
+import { DISTORTION_COEFFICIENT_NAMES, INTRINSICS_PRESETS, focalToFov, fovToFocal, intrinsicsFromPreset, validateIntrinsics } from '../services/intrinsics';
 
 interface SidePanelProps {
   prompt: string;
@@ -9,13 +11,43 @@ interface SidePanelProps {
   intrinsics: CameraIntrinsics;
   setIntrinsics: (intrinsics: CameraIntrinsics) => void;
   onStart: () => void;
+  onCancel: () => void;
   isLoading: boolean;
   onFileUpload: (files: File[]) => void;
   sourceImage: string | null;
   showSourceImage: boolean;
   setShowSourceImage: (show: boolean) => void;
+  reprojection: ReprojectionSettings;
+  setReprojection: (settings: ReprojectionSettings) => void;
+  hasSegmentationMask: boolean;
+  onLoadSegmentationMask: (file: File) => void;
+  onClearSegmentationMask: () => void;
+  onDeriveIntrinsicsFromImage: () => void;
+  onImportIntrinsics: (file: File) => void;
+  onExportIntrinsics: (format: 'colmap' | 'opencv') => void;
+  applyLensDistortion: boolean;
+  setApplyLensDistortion: (apply: boolean) => void;
+  generationMode: GenerationMode;
+  setGenerationMode: (mode: GenerationMode) => void;
+  hasSelection: boolean;
+  conversationLength: number;
+  onResetConversation: () => void;
+  onDownloadRecording: () => void;
+  includeSceneContext: boolean;
+  setIncludeSceneContext: (include: boolean) => void;
+  promptImages: PromptImage[];
+  onAddPromptImages: (files: File[]) => void;
+  onRemovePromptImage: (id: string) => void;
+  projectName: string;
+  onOpenProjects: () => void;
 }
 
+const generationModes: { value: GenerationMode; label: string; title: string }[] = [
+  { value: 'replace-scene', label: 'New Scene', title: 'Clear the scene and start a new conversation' },
+  { value: 'append', label: 'Append', title: 'Add generated objects next to the existing assets' },
+  { value: 'replace-selected', label: 'Replace Selected', title: 'Swap the selected asset for the generated object' },
+];
+
 const IntrinsicsInput = ({ label, id, value, onChange }: { label: string; id: keyof CameraIntrinsics; value: number; onChange: (id: keyof CameraIntrinsics, value: number) => void; }) => (
   <div>
     <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
@@ -30,34 +62,197 @@ const IntrinsicsInput = ({ label, id, value, onChange }: { label: string; id: ke
   </div>
 );
 
+const FovInput = ({ label, id, value, onChange }: { label: string; id: string; value: number; onChange: (value: number) => void; }) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
+    <input
+      type="number"
+      id={id}
+      min={1}
+      max={179}
+      step={0.5}
+      value={Number.isFinite(value) ? Number(value.toFixed(2)) : ''}
+      onChange={(e) => {
+        const fov = parseFloat(e.target.value);
+        if (fov > 0 && fov < 180) onChange(fov);
+      }}
+      className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+    />
+  </div>
+);
 
-const SidePanel: React.FC<SidePanelProps> = ({ prompt, setPrompt, serverEndpoint, setServerEndpoint, intrinsics, setIntrinsics, onStart, isLoading, onFileUpload, sourceImage, showSourceImage, setShowSourceImage }) => {
+const SidePanel: React.FC<SidePanelProps> = ({ prompt, setPrompt, serverEndpoint, setServerEndpoint, intrinsics, setIntrinsics, onStart, onCancel, isLoading, onFileUpload, sourceImage, showSourceImage, setShowSourceImage, reprojection, setReprojection, hasSegmentationMask, onLoadSegmentationMask, onClearSegmentationMask, onDeriveIntrinsicsFromImage, onImportIntrinsics, onExportIntrinsics, applyLensDistortion, setApplyLensDistortion, generationMode, setGenerationMode, hasSelection, conversationLength, onResetConversation, onDownloadRecording, includeSceneContext, setIncludeSceneContext, promptImages, onAddPromptImages, onRemovePromptImage, projectName, onOpenProjects }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const maskInputRef = useRef<HTMLInputElement>(null);
+  const calibrationInputRef = useRef<HTMLInputElement>(null);
+  // Edits stay in this draft while they are invalid; the camera keeps the last
+  // valid intrinsics. Intrinsics changed elsewhere (import, camera switch) replace the draft.
+  const [draft, setDraft] = useState(intrinsics);
+  const [appliedIntrinsics, setAppliedIntrinsics] = useState(intrinsics);
+  if (intrinsics !== appliedIntrinsics) {
+    setAppliedIntrinsics(intrinsics);
+    setDraft(intrinsics);
+  }
+  const intrinsicsIssues = validateIntrinsics(draft);
+  const [isDraggingImage, setIsDraggingImage] = useState(false);
   
+  const editIntrinsics = (next: CameraIntrinsics) => {
+    setDraft(next);
+    if (validateIntrinsics(next).length === 0) {
+      setIntrinsics(next);
+    }
+  };
+
   const handleIntrinsicsChange = (id: keyof CameraIntrinsics, value: number) => {
-    setIntrinsics({ ...intrinsics, [id]: value });
+    editIntrinsics({ ...draft, [id]: value });
+  };
+
+  const handleDistortionModelChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const { distortion, ...pinhole } = draft;
+    if (e.target.value === 'none') {
+      editIntrinsics(pinhole);
+    } else if (e.target.value !== distortion?.model) {
+      // Coefficients of one model mean nothing in the other.
+      editIntrinsics({ ...pinhole, distortion: { model: e.target.value as LensDistortion['model'], coefficients: [] } });
+    }
+  };
+
+  const handleDistortionCoefficientChange = (index: number, value: number) => {
+    const { distortion } = draft;
+    if (!distortion) return;
+    const coefficients = DISTORTION_COEFFICIENT_NAMES[distortion.model].map((_, i) => (i === index ? value : distortion.coefficients[i] ?? 0));
+    editIntrinsics({ ...draft, distortion: { ...distortion, coefficients } });
   };
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       onFileUpload(Array.from(e.target.files));
     }
+    e.target.value = '';
+  };
+
+  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onAddPromptImages(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
+  const handlePresetChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const preset = INTRINSICS_PRESETS.find(candidate => candidate.id === e.target.value);
+    if (preset) {
+      editIntrinsics(intrinsicsFromPreset(draft.image_width, draft.image_height, preset.focalLength35mm));
+    }
+    e.target.value = '';
+  };
+
+  const handleCalibrationChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportIntrinsics(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleMaskChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onLoadSegmentationMask(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleImageDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingImage(false);
+    const files = Array.from(e.dataTransfer.files).filter((file: File) => file.type.startsWith('image/'));
+    if (files.length > 0) {
+      onAddPromptImages(files);
+    }
+  };
+
+  const handlePromptPaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files).filter((file: File) => file.type.startsWith('image/'));
+    if (files.length > 0) {
+      e.preventDefault();
+      onAddPromptImages(files);
+    }
   };
 
   return (
     <div className="w-96 bg-gray-800 p-6 flex flex-col space-y-6 h-full overflow-y-auto">
-      <h1 className="text-2xl font-bold text-white">SceneCraft Editor</h1>
+      <div>
+        <h1 className="text-2xl font-bold text-white">SceneCraft Editor</h1>
+        <button
+          type="button"
+          onClick={onOpenProjects}
+          className="mt-1 text-sm text-indigo-400 hover:text-indigo-300 truncate max-w-full"
+          title="Browse, rename and switch between projects saved in this browser"
+        >
+          {projectName} ▾
+        </button>
+      </div>
 
       <div className="space-y-4">
-        <div>
-          <label htmlFor="prompt" className="block text-sm font-medium text-gray-300">Prompt</label>
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDraggingImage(true); }}
+          onDragLeave={() => setIsDraggingImage(false)}
+          onDrop={handleImageDrop}
+        >
+          <div className="flex items-center justify-between">
+            <label htmlFor="prompt" className="block text-sm font-medium text-gray-300">Prompt</label>
+            <button
+              type="button"
+              onClick={() => imageInputRef.current?.click()}
+              className="text-xs text-indigo-400 hover:text-indigo-300"
+              title="Attach images (or drop / paste them into the prompt)"
+            >
+              Attach Image
+            </button>
+            <input
+              type="file"
+              ref={imageInputRef}
+              multiple
+              accept="image/*"
+              onChange={handleImageChange}
+              style={{ display: 'none' }}
+              aria-hidden="true"
+            />
+          </div>
           <textarea
             id="prompt"
             rows={4}
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            onPaste={handlePromptPaste}
+            className={`mt-1 block w-full bg-gray-700 border rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm ${
+              isDraggingImage ? 'border-indigo-500' : 'border-gray-600'
+            }`}
             placeholder="e.g., 'Create a simple cube'"
           />
+          {promptImages.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {promptImages.map(image => (
+                <div key={image.id} className="relative">
+                  <img
+                    src={`data:${image.mimeType};base64,${image.data}`}
+                    alt={image.name}
+                    title={image.name}
+                    className="h-16 w-16 object-cover rounded-md"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onRemovePromptImage(image.id)}
+                    className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center rounded-full bg-gray-900 text-gray-300 hover:text-red-400 text-xs"
+                    aria-label={`Remove ${image.name}`}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
         <div>
           <label htmlFor="serverEndpoint" className="block text-sm font-medium text-gray-300">Server Endpoint</label>
@@ -68,6 +263,54 @@ const SidePanel: React.FC<SidePanelProps> = ({ prompt, setPrompt, serverEndpoint
             onChange={(e) => setServerEndpoint(e.target.value)}
             className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
           />
+          <p className="mt-1 text-xs text-gray-400">
+            Gemini model name, <code>http(s)://</code> backend URL, <code>fixture:/path.json</code> or <code>mock</code>.
+          </p>
+        </div>
+        <div>
+          <p className="block text-sm font-medium text-gray-300">Mode</p>
+          <div className="mt-1 grid grid-cols-3 gap-1 bg-gray-700 p-1 rounded-md" role="radiogroup">
+            {generationModes.map(mode => (
+              <button
+                key={mode.value}
+                type="button"
+                role="radio"
+                aria-checked={generationMode === mode.value}
+                onClick={() => setGenerationMode(mode.value)}
+                disabled={mode.value === 'replace-selected' && !hasSelection}
+                title={mode.title}
+                className={`py-1 px-1 rounded text-xs font-medium transition-colors disabled:text-gray-500 disabled:cursor-not-allowed ${
+                  generationMode === mode.value ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          {generationMode !== 'replace-scene' && (
+            <label className="mt-2 flex items-center space-x-2 text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={includeSceneContext}
+                onChange={(e) => setIncludeSceneContext(e.target.checked)}
+                className="rounded bg-gray-700 border-gray-600 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>Send current scene layout with the prompt</span>
+            </label>
+          )}
+          {generationMode !== 'replace-scene' && conversationLength > 0 && (
+            <div className="mt-2 flex items-center justify-between text-xs text-gray-400">
+              <span>{conversationLength} previous {conversationLength === 1 ? 'turn' : 'turns'} sent as context</span>
+              <span className="space-x-2">
+                <button type="button" onClick={onDownloadRecording} className="text-indigo-400 hover:text-indigo-300" title="Download as a replayable fixture">
+                  Save
+                </button>
+                <button type="button" onClick={onResetConversation} className="text-indigo-400 hover:text-indigo-300">
+                  Reset
+                </button>
+              </span>
+            </div>
+          )}
         </div>
         <button
           onClick={onStart}
@@ -81,6 +324,14 @@ const SidePanel: React.FC<SidePanelProps> = ({ prompt, setPrompt, serverEndpoint
             </svg>
           ) : 'Start'}
         </button>
+        {isLoading && (
+          <button
+            onClick={onCancel}
+            className="w-full flex justify-center py-2 px-4 border border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-200 bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            Cancel
+          </button>
+        )}
 
         {sourceImage && (
           <div className="flex items-center justify-between pt-2">
@@ -104,18 +355,189 @@ const SidePanel: React.FC<SidePanelProps> = ({ prompt, setPrompt, serverEndpoint
             </button>
           </div>
         )}
+
+        {sourceImage && (
+          <div className="space-y-2">
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-300">
+              <input
+                type="checkbox"
+                checked={reprojection.enabled}
+                onChange={(e) => setReprojection({ ...reprojection, enabled: e.target.checked })}
+                className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+              />
+              <span title="Project each asset through the calibrated camera onto the source image">Reprojection Overlay</span>
+            </label>
+            {reprojection.enabled && (
+              <div className="pl-6 space-y-2 text-sm text-gray-300">
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={reprojection.style}
+                    onChange={(e) => setReprojection({ ...reprojection, style: e.target.value as ReprojectionSettings['style'] })}
+                    className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white sm:text-sm"
+                    aria-label="Overlay style"
+                  >
+                    <option value="silhouette">Silhouette</option>
+                    <option value="wireframe">Wireframe</option>
+                  </select>
+                  {reprojection.style === 'silhouette' && (
+                    <label className="flex items-center space-x-1">
+                      <input
+                        type="checkbox"
+                        checked={reprojection.edgesOnly}
+                        onChange={(e) => setReprojection({ ...reprojection, edgesOnly: e.target.checked })}
+                        className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+                      />
+                      <span>Edges only</span>
+                    </label>
+                  )}
+                </div>
+                <label className="flex items-center space-x-2">
+                  <span>Opacity</span>
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    value={reprojection.opacity}
+                    onChange={(e) => setReprojection({ ...reprojection, opacity: parseFloat(e.target.value) })}
+                    className="flex-1"
+                  />
+                </label>
+                <div className="flex items-center justify-between">
+                  <button
+                    type="button"
+                    onClick={() => maskInputRef.current?.click()}
+                    className="text-indigo-400 hover:text-indigo-300"
+                    title="A mask image of the source image's objects, used to score how well each asset lines up"
+                  >
+                    {hasSegmentationMask ? 'Replace Segmentation Mask…' : 'Load Segmentation Mask…'}
+                  </button>
+                  {hasSegmentationMask && (
+                    <button type="button" onClick={onClearSegmentationMask} className="text-gray-400 hover:text-red-400">
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <input ref={maskInputRef} type="file" accept="image/*" onChange={handleMaskChange} className="hidden" />
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="border-t border-gray-700 pt-6">
         <h2 className="text-lg font-semibold text-white mb-4">Camera Intrinsics</h2>
+        <div className="flex items-center space-x-2 mb-4">
+          <select
+            defaultValue=""
+            onChange={handlePresetChange}
+            className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-md py-2 px-2 text-white sm:text-sm"
+            aria-label="Intrinsics preset"
+            title="Sets an ideal camera for the current image size"
+          >
+            <option value="" disabled>Presets…</option>
+            {INTRINSICS_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onDeriveIntrinsicsFromImage}
+            disabled={!sourceImage}
+            className="py-2 px-2 rounded-md text-sm text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed"
+            title="Match the image size to the source image, keeping the field of view"
+          >
+            Fit to Image
+          </button>
+        </div>
         <div className="grid grid-cols-2 gap-4">
-          <IntrinsicsInput label="Image Width" id="image_width" value={intrinsics.image_width} onChange={handleIntrinsicsChange} />
-          <IntrinsicsInput label="Image Height" id="image_height" value={intrinsics.image_height} onChange={handleIntrinsicsChange} />
-          <IntrinsicsInput label="CX" id="cx" value={intrinsics.cx} onChange={handleIntrinsicsChange} />
-          <IntrinsicsInput label="CY" id="cy" value={intrinsics.cy} onChange={handleIntrinsicsChange} />
-          <IntrinsicsInput label="FX" id="fx" value={intrinsics.fx} onChange={handleIntrinsicsChange} />
-          <IntrinsicsInput label="FY" id="fy" value={intrinsics.fy} onChange={handleIntrinsicsChange} />
+          <IntrinsicsInput label="Image Width" id="image_width" value={draft.image_width} onChange={handleIntrinsicsChange} />
+          <IntrinsicsInput label="Image Height" id="image_height" value={draft.image_height} onChange={handleIntrinsicsChange} />
+          <IntrinsicsInput label="CX" id="cx" value={draft.cx} onChange={handleIntrinsicsChange} />
+          <IntrinsicsInput label="CY" id="cy" value={draft.cy} onChange={handleIntrinsicsChange} />
+          <IntrinsicsInput label="FX" id="fx" value={draft.fx} onChange={handleIntrinsicsChange} />
+          <IntrinsicsInput label="FY" id="fy" value={draft.fy} onChange={handleIntrinsicsChange} />
+          <FovInput
+            label="Horizontal FOV (°)"
+            id="horizontal_fov"
+            value={focalToFov(draft.fx, draft.image_width)}
+            onChange={(fov) => editIntrinsics({ ...draft, fx: fovToFocal(fov, draft.image_width) })}
+          />
+          <FovInput
+            label="Vertical FOV (°)"
+            id="vertical_fov"
+            value={focalToFov(draft.fy, draft.image_height)}
+            onChange={(fov) => editIntrinsics({ ...draft, fy: fovToFocal(fov, draft.image_height) })}
+          />
         </div>
+        <div className="mt-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <label htmlFor="distortion_model" className="text-sm font-medium text-gray-300">Lens Distortion</label>
+            <select
+              id="distortion_model"
+              value={draft.distortion?.model ?? 'none'}
+              onChange={handleDistortionModelChange}
+              className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white sm:text-sm"
+            >
+              <option value="none">None (pinhole)</option>
+              <option value="brown-conrady">Brown–Conrady</option>
+              <option value="fisheye">Fisheye</option>
+            </select>
+          </div>
+          {draft.distortion && (
+            <>
+              <div className="grid grid-cols-4 gap-2">
+                {DISTORTION_COEFFICIENT_NAMES[draft.distortion.model].map((name, index) => (
+                  <div key={name}>
+                    <label htmlFor={`distortion_${name}`} className="block text-xs font-medium text-gray-400">{name}</label>
+                    <input
+                      type="number"
+                      id={`distortion_${name}`}
+                      step={0.001}
+                      value={draft.distortion?.coefficients[index] ?? 0}
+                      onChange={(e) => handleDistortionCoefficientChange(index, parseFloat(e.target.value) || 0)}
+                      className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={applyLensDistortion}
+                  onChange={(e) => setApplyLensDistortion(e.target.checked)}
+                  className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+                />
+                <span title="Warp the calibrated view to match a raw photo. Turn off when the source image is already undistorted.">
+                  Distort View (raw source image)
+                </span>
+              </label>
+            </>
+          )}
+        </div>
+        {intrinsicsIssues.length > 0 && (
+          <ul className="mt-3 space-y-1 text-xs text-red-400" role="alert">
+            {intrinsicsIssues.map(issue => <li key={issue}>{issue}</li>)}
+            <li className="text-gray-400">The camera keeps its last valid intrinsics until these are fixed.</li>
+          </ul>
+        )}
+        <div className="flex items-center space-x-3 mt-3 text-sm">
+          <button
+            type="button"
+            onClick={() => calibrationInputRef.current?.click()}
+            className="text-indigo-400 hover:text-indigo-300"
+            title="Load a COLMAP cameras.txt or an OpenCV calibration YAML"
+          >
+            Import…
+          </button>
+          <button type="button" onClick={() => onExportIntrinsics('colmap')} className="text-indigo-400 hover:text-indigo-300">
+            Export cameras.txt
+          </button>
+          <button type="button" onClick={() => onExportIntrinsics('opencv')} className="text-indigo-400 hover:text-indigo-300">
+            Export YAML
+          </button>
+        </div>
+        <input ref={calibrationInputRef} type="file" accept=".txt,.yaml,.yml" onChange={handleCalibrationChange} className="hidden" />
       </div>
       
       <div className="border-t border-gray-700 pt-6">
@@ -123,10 +545,28 @@ const SidePanel: React.FC<SidePanelProps> = ({ prompt, setPrompt, serverEndpoint
          <input 
             type="file"
             multiple
-            accept=".ply,.glb,.gltf"
+            accept={UPLOAD_ACCEPT}
             onChange={handleFileChange}
             className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-500 file:text-white hover:file:bg-indigo-600"
          />
+         <p className="text-xs text-gray-500 mt-2">
+           Select a model together with the files it references (.bin, .mtl, textures), or upload its whole folder.
+         </p>
+         <button
+            type="button"
+            onClick={() => folderInputRef.current?.click()}
+            className="mt-2 text-sm text-indigo-400 hover:text-indigo-300"
+         >
+            Upload Folder…
+         </button>
+         <input
+            type="file"
+            ref={folderInputRef}
+            webkitdirectory=""
+            onChange={handleFileChange}
+            style={{ display: 'none' }}
+            aria-hidden="true"
+         />
       </div>
     </div>
   );
@@ -1,57 +1,744 @@
 import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef, useCallback } from 'react';
 import * as THREE from 'three';
-import { PLYLoader } from 'three/addons/loaders/PLYLoader.js';
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
 import { TransformControls } from 'three/addons/controls/TransformControls.js';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
 import { RoomEnvironment } from 'three/addons/environments/RoomEnvironment.js';
-import { CameraIntrinsics, ThreeDAsset, AssetTransform, ThreeDViewerRef } from '../types';
+import { CSS2DRenderer, CSS2DObject } from 'three/addons/renderers/CSS2DRenderer.js';
+import { CameraIntrinsics, CameraExtrinsics, SceneCamera, ThreeDAsset, AssetTransform, ThreeDViewerRef, Vector3, SnapSettings, AlignMode, Measurement, ReprojectionSettings } from '../types';
+import { SceneHistory } from '../services/sceneHistory';
+import { IDENTITY_EXTRINSICS } from '../services/scenecraftProto';
+import { exportGlb } from '../services/gltfExport';
+import { loadAssetObject } from '../services/formatRegistry';
+import { applyPointDisplay, DEFAULT_POINT_DISPLAY } from '../services/pointCloud';
+import { MEASUREMENT_POINT_COUNT, formatMeasurement } from '../services/measurements';
+import { alignmentScore, loadSegmentationLabels, maskEdges, overlayResolution, paintMasks } from '../services/reprojection';
+import { resizeIntrinsics } from '../services/intrinsics';
+import { createDistortionMap, createDistortionPass, distortPixel, remapPixels, undistortPixel, undistortedFrame } from '../services/lensDistortion';
 
 interface ThreeDViewerProps {
   assets: ThreeDAsset[];
   intrinsics: CameraIntrinsics;
-  activeAssetId: string | null;
+  selectedAssetIds: string[];
+  onSelectionChange: (ids: string[]) => void;
   activeAssetTransform: AssetTransform | null;
   onTransformChange: (transform: AssetTransform) => void;
   sourceImage: string | null;
   showSourceImage: boolean;
+  history: SceneHistory;
+  cameras: SceneCamera[];
+  activeCameraId: string | null;
+  onSelectCamera: (id: string | null) => void;
+  // Files dropped or pasted onto the viewport, with the scene point under the cursor if it hit an asset.
+  onDropFiles: (files: File[], point: Vector3 | null) => void;
+  snapSettings: SnapSettings;
+  showGrid: boolean;
+  measurements: Measurement[];
+  onAddMeasurement: (kind: Measurement['kind'], points: Vector3[]) => void;
+  reprojection: ReprojectionSettings;
+  // Segmentation of the source image that reprojected assets are scored against.
+  segmentationMask: string | null;
+  // Whether the calibrated view shows the intrinsics' lens distortion, for a source image that was not undistorted.
+  applyLensDistortion: boolean;
 }
 
-const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewerProps> = ({ assets, intrinsics, activeAssetId, activeAssetTransform, onTransformChange, sourceImage, showSourceImage }, ref) => {
+const getObjectTransform = (object: THREE.Object3D): AssetTransform => ({
+  position: { x: object.position.x, y: object.position.y, z: object.position.z },
+  rotation: {
+    x: THREE.MathUtils.radToDeg(object.rotation.x),
+    y: THREE.MathUtils.radToDeg(object.rotation.y),
+    z: THREE.MathUtils.radToDeg(object.rotation.z),
+  },
+  scale: { x: object.scale.x, y: object.scale.y, z: object.scale.z },
+});
+
+// The object's transform in scene space, however deeply it is nested.
+const getWorldTransform = (object: THREE.Object3D): AssetTransform => {
+  object.updateWorldMatrix(true, false);
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  object.matrixWorld.decompose(position, quaternion, scale);
+  const euler = new THREE.Euler().setFromQuaternion(quaternion);
+  return {
+    position: { x: position.x, y: position.y, z: position.z },
+    rotation: {
+      x: THREE.MathUtils.radToDeg(euler.x),
+      y: THREE.MathUtils.radToDeg(euler.y),
+      z: THREE.MathUtils.radToDeg(euler.z),
+    },
+    scale: { x: scale.x, y: scale.y, z: scale.z },
+  };
+};
+
+const applyObjectTransform = (object: THREE.Object3D, transform: AssetTransform) => {
+  const { position, rotation, scale } = transform;
+  object.position.set(position.x, position.y, position.z);
+  object.rotation.set(
+    THREE.MathUtils.degToRad(rotation.x),
+    THREE.MathUtils.degToRad(rotation.y),
+    THREE.MathUtils.degToRad(rotation.z)
+  );
+  object.scale.set(scale.x, scale.y, scale.z);
+  object.updateMatrixWorld(true);
+};
+
+// The default camera looks along +Z with Y down, i.e. three's camera (looking
+// down -Z with Y up) turned half a revolution about Y. That makes the scene
+// frame the OpenCV frame of the default camera.
+const OPENCV_TO_THREE_CAMERA = new THREE.Matrix4().makeRotationY(Math.PI);
+
+/**
+ * Converts OpenCV world-to-camera extrinsics into a three.js camera pose.
+ * @param extrinsics Rotation (row-major 3x3) and translation with x_cam = R * x_world + t.
+ * @returns The camera's position and orientation in the scene.
+ */
+const extrinsicsToCameraPose = ({ rotation: r, translation: t }: CameraExtrinsics) => {
+  // The camera-to-world rotation is R transposed; the camera center is -R^T * t.
+  const cameraToWorld = new THREE.Matrix4().set(
+    r[0], r[3], r[6], 0,
+    r[1], r[4], r[7], 0,
+    r[2], r[5], r[8], 0,
+    0, 0, 0, 1
+  );
+  cameraToWorld.setPosition(new THREE.Vector3(t.x, t.y, t.z).applyMatrix4(cameraToWorld).negate());
+  cameraToWorld.multiply(OPENCV_TO_THREE_CAMERA);
+
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  cameraToWorld.decompose(position, quaternion, new THREE.Vector3());
+  return { position, quaternion };
+};
+
+/**
+ * Builds the projection of a pinhole camera with the given intrinsics, mapping
+ * image pixels onto the full viewport.
+ * @param intrinsics Focal lengths and principal point in pixels, with the image size.
+ * @param near Near clipping distance.
+ * @param far Far clipping distance.
+ */
+const intrinsicsProjection = ({ image_width: width, image_height: height, fx, fy, cx, cy }: CameraIntrinsics, near: number, far: number) =>
+  new THREE.Matrix4().set(
+    -2*fx / width, 0,                1-2*cx / width,     0,
+    0,            -2*fy / height,    2*cy / height-1,   0,
+    0,            0,                  -(far + near) / (far - near), -2 * far * near / (far - near),
+    0,            0,                  -1,                           0
+  );
+
+// Editor camera fly speed, in multiples of the orbit distance per second.
+const FLY_SPEED = 1.0;
+const LOOK_SENSITIVITY = 0.003;
+
+// Pointer travel, in pixels, below which a press counts as a click rather than a drag.
+const CLICK_TOLERANCE_PX = 4;
+
+/**
+ * Moves an orbiting camera so the objects fill the view, keeping the viewing direction.
+ * @param camera The editor camera.
+ * @param controls The orbit controls driving it.
+ * @param objects The objects to frame.
+ */
+const focusOnObjects = (camera: THREE.PerspectiveCamera, controls: OrbitControls, objects: THREE.Object3D[]) => {
+  const box = new THREE.Box3();
+  objects.forEach(object => box.expandByObject(object));
+  if (box.isEmpty()) return;
+  const sphere = box.getBoundingSphere(new THREE.Sphere());
+  const distance = Math.max(sphere.radius, 0.01) / Math.sin(THREE.MathUtils.degToRad(camera.fov) / 2) * 1.2;
+  const direction = camera.getWorldDirection(new THREE.Vector3());
+  controls.target.copy(sphere.center);
+  camera.position.copy(sphere.center).addScaledVector(direction, -distance);
+  controls.update();
+};
+
+/**
+ * Casts a ray against the visible geometry under the given roots.
+ * @param raycaster The ray to cast.
+ * @param roots Top-level asset wrappers.
+ * @param exclude Subtrees to ignore, e.g. the assets being moved.
+ * @returns The nearest hit point, or null.
+ */
+const raycastAssets = (raycaster: THREE.Raycaster, roots: THREE.Object3D[], exclude: Set<THREE.Object3D>): THREE.Vector3 | null => {
+  let nearest: THREE.Vector3 | null = null;
+  let nearestDistance = Infinity;
+  const visit = (object: THREE.Object3D) => {
+    if (!object.visible || exclude.has(object)) return;
+    let point: THREE.Vector3 | null = null;
+    if (object.userData.isSplat) {
+      // Splats are drawn in a shader; hit them by their bounds.
+      point = raycaster.ray.intersectBox(new THREE.Box3().setFromObject(object), new THREE.Vector3());
+    } else if (object instanceof THREE.Mesh || object instanceof THREE.Points) {
+      point = raycaster.intersectObject(object, false)[0]?.point ?? null;
+    }
+    const distance = point ? point.distanceTo(raycaster.ray.origin) : Infinity;
+    if (point && distance < nearestDistance) {
+      nearest = point;
+      nearestDistance = distance;
+    }
+    object.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return nearest;
+};
+
+const MEASUREMENT_COLOR = 0x22d3ee;
+const PENDING_MEASUREMENT_COLOR = 0xf472b6;
+
+/**
+ * Builds the lines, point markers and label for a measurement. Drawn over the
+ * scene so they stay visible inside geometry.
+ * @param points The points placed so far.
+ * @param color Line and marker color.
+ * @param label Text shown at the measurement, if any.
+ */
+const createMeasurementObject = (points: Vector3[], color: number, label: string | null): THREE.Object3D => {
+  const group = new THREE.Group();
+  const positions = points.map(({ x, y, z }) => new THREE.Vector3(x, y, z));
+  const geometry = new THREE.BufferGeometry().setFromPoints(positions);
+  const markers = new THREE.Points(geometry, new THREE.PointsMaterial({ color, size: 8, sizeAttenuation: false, depthTest: false }));
+  markers.renderOrder = 999;
+  group.add(markers);
+  if (positions.length > 1) {
+    const line = new THREE.Line(geometry, new THREE.LineBasicMaterial({ color, depthTest: false }));
+    line.renderOrder = 999;
+    group.add(line);
+  }
+  if (label) {
+    const element = document.createElement('div');
+    element.className = 'px-1 rounded bg-gray-900 bg-opacity-80 text-cyan-300 text-xs font-mono';
+    element.textContent = label;
+    const text = new CSS2DObject(element);
+    // Distances are labelled at their midpoint, angles at their vertex.
+    text.position.copy(positions.length === 2 ? positions[0].clone().lerp(positions[1], 0.5) : positions[1]);
+    group.add(text);
+  }
+  return group;
+};
+
+// Grid lines per side at most, whatever the snap increment.
+const MAX_GRID_DIVISIONS = 400;
+
+// Only objects on this layer are drawn by offscreen renders (reprojection masks, image export).
+const OFFSCREEN_LAYER = 7;
+// Refresh rate of the reprojection overlay while assets move.
+const REPROJECTION_INTERVAL_MS = 250;
+
+/**
+ * Builds a camera looking through the calibrated intrinsics from the given pose.
+ * @param intrinsics Valid intrinsics (positive focal lengths and image size).
+ * @param extrinsics The camera pose.
+ * @returns A camera that sees only `OFFSCREEN_LAYER`.
+ */
+const createOffscreenCamera = (intrinsics: CameraIntrinsics, extrinsics: CameraExtrinsics): THREE.PerspectiveCamera => {
+  const camera = new THREE.PerspectiveCamera();
+  const projection = intrinsicsProjection(intrinsics, 0.1, 1000);
+  camera.projectionMatrix.copy(projection);
+  camera.projectionMatrixInverse.copy(projection).invert();
+  const { position, quaternion } = extrinsicsToCameraPose(extrinsics);
+  camera.position.copy(position);
+  camera.quaternion.copy(quaternion);
+  camera.updateMatrixWorld();
+  camera.layers.set(OFFSCREEN_LAYER);
+  return camera;
+};
+
+/**
+ * Sets up an offscreen render of the calibrated view at a given size. With lens
+ * distortion, the camera renders the wider pinhole frame and `map` warps its
+ * pixels into the image.
+ * @param intrinsics Valid intrinsics.
+ * @param extrinsics The camera pose.
+ * @param width Output width.
+ * @param height Output height.
+ * @param distorted Whether to apply the intrinsics' lens distortion.
+ * @returns The camera with the size to render at, and the warp if any.
+ */
+const createCalibratedRender = (intrinsics: CameraIntrinsics, extrinsics: CameraExtrinsics, width: number, height: number, distorted: boolean) => {
+  const scaled = resizeIntrinsics(intrinsics, width, height);
+  const frame = distorted && scaled.distortion ? undistortedFrame(scaled) : null;
+  return {
+    camera: createOffscreenCamera(frame ?? scaled, extrinsics),
+    width: frame?.image_width ?? width,
+    height: frame?.image_height ?? height,
+    map: frame && createDistortionMap(scaled, frame),
+  };
+};
+
+// Whether an object is drawn: neither it nor any ancestor is hidden.
+const isShown = (object: THREE.Object3D) => {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (!current.visible) return false;
+  }
+  return true;
+};
+
+/**
+ * Renders only the given contents into a target and reads it back. Each
+ * drawable object is drawn with the material `materialFor` picks for it.
+ * @param renderer The viewer's renderer; its target and clear color are restored afterwards.
+ * @param scene The scene holding the contents.
+ * @param camera A camera from `createOffscreenCamera`.
+ * @param target The render target; float targets read back as floats.
+ * @param contents Loaded asset contents (their wrappers' first children).
+ * @param materialFor A stand-in material, 'own' to keep the object's material, or null to leave the object out.
+ * @returns The target's RGBA pixels, bottom row first.
+ */
+const renderOffscreen = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  target: THREE.WebGLRenderTarget,
+  contents: THREE.Object3D[],
+  materialFor: (object: THREE.Mesh | THREE.Points) => THREE.Material | 'own' | null
+): Uint8Array | Float32Array => {
+  const drawn: THREE.Object3D[] = [];
+  const originalMaterials = new Map<THREE.Object3D, THREE.Material | THREE.Material[]>();
+  contents.forEach(content => content.traverse((object: THREE.Object3D) => {
+    if (!(object instanceof THREE.Mesh || object instanceof THREE.Points)) return;
+    const material = materialFor(object);
+    if (!material) return;
+    object.layers.enable(OFFSCREEN_LAYER);
+    drawn.push(object);
+    if (material !== 'own') {
+      originalMaterials.set(object, object.material);
+      object.material = material;
+    }
+  }));
+
+  const previousTarget = renderer.getRenderTarget();
+  const previousClearColor = renderer.getClearColor(new THREE.Color());
+  const previousClearAlpha = renderer.getClearAlpha();
+  const previousBackground = scene.background;
+  scene.background = null;
+  renderer.setRenderTarget(target);
+  renderer.setClearColor(0x000000, 0);
+  renderer.clear();
+  renderer.render(scene, camera);
+  const pixels = target.texture.type === THREE.FloatType
+    ? new Float32Array(target.width * target.height * 4)
+    : new Uint8Array(target.width * target.height * 4);
+  renderer.readRenderTargetPixels(target, 0, 0, target.width, target.height, pixels);
+  renderer.setRenderTarget(previousTarget);
+  renderer.setClearColor(previousClearColor, previousClearAlpha);
+  scene.background = previousBackground;
+
+  drawn.forEach(object => object.layers.disable(OFFSCREEN_LAYER));
+  originalMaterials.forEach((material, object) => { (object as THREE.Mesh).material = material; });
+  return pixels;
+};
+
+/**
+ * Renders one asset's content alone, in flat white, and reads back which pixels it covers.
+ * Splats keep their own shader, so their coverage is wherever they are mostly opaque.
+ * @param renderer The viewer's renderer.
+ * @param scene The scene holding the asset.
+ * @param camera A camera from `createOffscreenCamera`.
+ * @param content The asset's loaded content.
+ * @param target Render target at the mask resolution.
+ * @param wireframe Draw mesh edges instead of filled surfaces.
+ * @returns The coverage mask, top row first.
+ */
+const renderAssetMask = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  content: THREE.Object3D,
+  target: THREE.WebGLRenderTarget,
+  wireframe: boolean
+): Uint8Array => {
+  const meshMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff, side: THREE.DoubleSide, wireframe });
+  const pointsMaterials: THREE.PointsMaterial[] = [];
+  const pixels = renderOffscreen(renderer, scene, camera, target, [content], object => {
+    if (object instanceof THREE.Points) {
+      const size = (object.material as THREE.PointsMaterial).size ?? 1;
+      const material = new THREE.PointsMaterial({ color: 0xffffff, size, sizeAttenuation: false });
+      pointsMaterials.push(material);
+      return material;
+    }
+    return object.material instanceof THREE.ShaderMaterial ? 'own' : meshMaterial;
+  });
+  meshMaterial.dispose();
+  pointsMaterials.forEach(material => material.dispose());
+
+  // WebGL rows start at the bottom of the image.
+  const { width, height } = target;
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      mask[y * width + x] = pixels[((height - 1 - y) * width + x) * 4 + 3] > 127 ? 1 : 0;
+    }
+  }
+  return mask;
+};
+
+const exportVertexShader = /* glsl */ `
+  uniform float pointSize;
+  varying vec3 vViewPosition;
+  varying vec3 vViewNormal;
+
+  void main() {
+    vec4 viewPosition = modelViewMatrix * vec4(position, 1.0);
+    vViewPosition = viewPosition.xyz;
+    vViewNormal = normalMatrix * normal;
+    gl_PointSize = pointSize;
+    gl_Position = projectionMatrix * viewPosition;
+  }
+`;
+
+// Red: distance along the optical axis. Green: the asset's instance id.
+const depthFragmentShader = /* glsl */ `
+  uniform float instanceId;
+  varying vec3 vViewPosition;
+
+  void main() {
+    gl_FragColor = vec4(-vViewPosition.z, instanceId, 0.0, 1.0);
+  }
+`;
+
+// The normal facing the camera, turned from view space into OpenCV's camera frame
+// (x right, y down, z forward). The calibrated camera looks down -z like any three.js
+// camera, but its projection mirrors both image axes, so OpenCV's frame is (-x, y, -z)
+// in view space. Geometry without normals writes zero.
+const normalFragmentShader = /* glsl */ `
+  varying vec3 vViewNormal;
+
+  void main() {
+    vec3 n = length(vViewNormal) > 0.0 ? normalize(vViewNormal) : vec3(0.0);
+    if (!gl_FrontFacing) n = -n;
+    gl_FragColor = vec4(-n.x, n.y, -n.z, 1.0);
+  }
+`;
+
+/**
+ * Reorders RGBA pixels read from WebGL so the top row comes first.
+ * @param pixels Pixels, bottom row first.
+ * @param width Image width.
+ * @param height Image height.
+ * @param pick Which channels to keep, in order.
+ */
+const flipChannels = (pixels: Float32Array, width: number, height: number, pick: number[]): Float32Array => {
+  const out = new Float32Array(width * height * pick.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = ((height - 1 - y) * width + x) * 4;
+      const to = (y * width + x) * pick.length;
+      pick.forEach((channel, i) => { out[to + i] = pixels[from + channel]; });
+    }
+  }
+  return out;
+};
+
+// Frees the GPU resources of everything drawn under `root`: meshes (splats
+// included), point clouds and lines, with their materials' textures.
+const disposeObject = (root: THREE.Object3D) => {
+  root.traverse(object => {
+    if (!(object instanceof THREE.Mesh || object instanceof THREE.Points || object instanceof THREE.Line)) return;
+    object.geometry.dispose();
+    const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+    materials.forEach(material => {
+      Object.values(material)
+        .filter((value): value is THREE.Texture => value instanceof THREE.Texture)
+        .forEach(texture => texture.dispose());
+      material.dispose();
+    });
+  });
+};
+
+// Distinct overlay colors for consecutive assets, as [r, g, b].
+const reprojectionColor = (index: number): [number, number, number] => {
+  const hex = new THREE.Color().setHSL((index * 0.618) % 1, 0.9, 0.55, THREE.SRGBColorSpace).getHex();
+  return [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255];
+};
+
+const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewerProps> = ({ assets, intrinsics, selectedAssetIds, onSelectionChange, activeAssetTransform, onTransformChange, sourceImage, showSourceImage, history, cameras, activeCameraId, onSelectCamera, onDropFiles, snapSettings, showGrid, measurements, onAddMeasurement, reprojection, segmentationMask, applyLensDistortion }, ref) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const perspectiveCameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const orthographicCameraRef = useRef<THREE.OrthographicCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const modelsRef = useRef<Map<string, THREE.Object3D>>(new Map());
-  const boundingBoxRef = useRef<THREE.Box3Helper | null>(null);
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+  const boundingBoxesRef = useRef<Map<string, THREE.Box3Helper>>(new Map());
+  // Gizmo target for multi-selections; the selected models follow it around a shared pivot.
+  const selectionPivotRef = useRef<THREE.Object3D | null>(null);
   const transformControlsRef = useRef<TransformControls | null>(null);
   const [loadedModelIds, setLoadedModelIds] = useState<Set<string>>(new Set());
   const isUsingIntrinsicsRef = useRef(false);
+  // The calibrated view's lens warp while it is applied; the perspective camera then projects `frame`.
+  const lensWarpRef = useRef<{ intrinsics: CameraIntrinsics; frame: CameraIntrinsics } | null>(null);
   const isUpdatingProgrammatically = useRef(false);
   const [isTopDownView, setIsTopDownView] = useState(false);
   const isTopDownViewRef = useRef(isTopDownView);
   isTopDownViewRef.current = isTopDownView;
   const savedCameraStateRef = useRef<{position: THREE.Vector3, rotation: THREE.Euler} | null>(null);
+  // A free orbit/fly camera for inspecting the scene; the calibrated camera is left untouched.
+  const editorCameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  const orbitControlsRef = useRef<OrbitControls | null>(null);
+  const [isEditorCamera, setIsEditorCamera] = useState(false);
+  const isEditorCameraRef = useRef(isEditorCamera);
+  isEditorCameraRef.current = isEditorCamera;
+  const focusOnEnterRef = useRef(false);
+  const selectedAssetIdsRef = useRef(selectedAssetIds);
+  selectedAssetIdsRef.current = selectedAssetIds;
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  onSelectionChangeRef.current = onSelectionChange;
+  const [marquee, setMarquee] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+  // Raycasts from a client position into the scene; set up with the renderer.
+  const pickAtRef = useRef<((clientX: number, clientY: number) => { id: string; point: THREE.Vector3 } | null) | null>(null);
+  const lastPointerRef = useRef<{ clientX: number; clientY: number } | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // The single selected asset, whose transform the AssetPanel edits.
+  const activeAssetId = selectedAssetIds.length === 1 ? selectedAssetIds[0] : null;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const gridRef = useRef<THREE.GridHelper | null>(null);
+  const measurementGroupRef = useRef<THREE.Group | null>(null);
+  // The measuring tool in use, if any, and the points placed for the next measurement.
+  const [measureTool, setMeasureTool] = useState<Measurement['kind'] | null>(null);
+  const measureToolRef = useRef(measureTool);
+  measureToolRef.current = measureTool;
+  const [pendingPoints, setPendingPoints] = useState<Vector3[]>([]);
+  const pendingPointsRef = useRef(pendingPoints);
+  pendingPointsRef.current = pendingPoints;
+  const onAddMeasurementRef = useRef(onAddMeasurement);
+  onAddMeasurementRef.current = onAddMeasurement;
+  // Size of the selection's combined bounds, shown while something is selected.
+  const [selectionSize, setSelectionSize] = useState<THREE.Vector3 | null>(null);
+  // The bottom of the scene (its largest Y, since Y points down), where the grid lies.
+  const groundLevelRef = useRef(0);
+  const reprojectionCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [segmentationLabels, setSegmentationLabels] = useState<Uint32Array | null>(null);
+  const [alignmentScores, setAlignmentScores] = useState<{ id: string; label: string; score: number | null }[]>([]);
+
+  // Boxes follow their models, including children moved along with a parent.
+  const refreshBoundingBoxes = useCallback(() => {
+    const bounds = new THREE.Box3();
+    boundingBoxesRef.current.forEach((helper, id) => {
+      const model = modelsRef.current.get(id);
+      if (model) helper.box.setFromObject(model);
+      bounds.union(helper.box);
+    });
+    setSelectionSize(bounds.isEmpty() ? null : bounds.getSize(new THREE.Vector3()));
+  }, []);
 
+  // Applies a transform to a loaded model and keeps the gizmo, bounding box
+  // and the parent's transform state in sync when that model is selected.
+  const setAssetTransform = useCallback((id: string, transform: AssetTransform) => {
+    const model = modelsRef.current.get(id);
+    if (!model) return;
+    applyObjectTransform(model, transform);
+    refreshBoundingBoxes();
+    if (transformControlsRef.current?.object === model) {
+      onTransformChange(transform);
+    }
+  }, [onTransformChange, refreshBoundingBoxes]);
+
+  // Nests each model's wrapper under its parent's, keeping its world placement, so
+  // transforms become local to the parent. Models whose parent is missing or not
+  // loaded yet stay at the scene root until it is.
+  const syncHierarchy = useCallback(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    assetsRef.current.forEach(asset => {
+      const model = modelsRef.current.get(asset.id);
+      if (!model) return;
+      let parent: THREE.Object3D = (asset.parentId && modelsRef.current.get(asset.parentId)) || scene;
+      // Never nest a model inside its own subtree.
+      for (let ancestor: THREE.Object3D | null = parent; ancestor; ancestor = ancestor.parent) {
+        if (ancestor === model) {
+          parent = scene;
+          break;
+        }
+      }
+      if (model.parent === parent) return;
+      parent.attach(model);
+      if (transformControlsRef.current?.object === model) {
+        onTransformChange(getObjectTransform(model));
+      }
+    });
+  }, [onTransformChange]);
+
+  // Re-centers the multi-selection gizmo after its models moved without it.
+  const refreshSelectionPivot = useCallback(() => {
+    const pivot = selectionPivotRef.current;
+    if (!pivot || transformControlsRef.current?.object !== pivot) return;
+    const bounds = new THREE.Box3();
+    selectedAssetIdsRef.current.forEach(id => {
+      const model = modelsRef.current.get(id);
+      if (model) bounds.expandByObject(model);
+    });
+    if (bounds.isEmpty()) return;
+    bounds.getCenter(pivot.position);
+    pivot.updateMatrixWorld(true);
+  }, []);
+
+  // The given models, minus those nested under another of them (they move with it).
+  const getTopLevelModels = useCallback((ids: string[]) => {
+    const models = new Map(ids.flatMap(id => {
+      const model = modelsRef.current.get(id);
+      return model ? [[id, model] as const] : [];
+    }));
+    const modelSet = new Set(models.values());
+    return [...models].filter(([, model]) => {
+      for (let ancestor = model.parent; ancestor; ancestor = ancestor.parent) {
+        if (modelSet.has(ancestor)) return false;
+      }
+      return true;
+    });
+  }, []);
+
+  // Shifts models by scene-space offsets as a single undoable edit.
+  const translateModels = useCallback((offsets: { id: string; offset: THREE.Vector3 }[], label: string) => {
+    const changes = offsets.flatMap(({ id, offset }) => {
+      const model = modelsRef.current.get(id);
+      if (!model || offset.lengthSq() < 1e-12) return [];
+      const before = getObjectTransform(model);
+      const target = model.getWorldPosition(new THREE.Vector3()).add(offset);
+      model.position.copy(model.parent ? model.parent.worldToLocal(target) : target);
+      return [{ id, before, after: getObjectTransform(model) }];
+    });
+    if (changes.length === 0) return;
+    const apply = (key: 'before' | 'after') => {
+      changes.forEach(change => setAssetTransform(change.id, change[key]));
+      refreshSelectionPivot();
+    };
+    apply('after');
+    historyRef.current.record({
+      label: changes.length > 1 ? `${label} (${changes.length} assets)` : label,
+      undo: () => apply('before'),
+      redo: () => apply('after'),
+    });
+  }, [setAssetTransform, refreshSelectionPivot]);
 
   useImperativeHandle(ref, () => ({
     getSceneData: () => {
       const sceneData: { id: string; transform: AssetTransform }[] = [];
       modelsRef.current.forEach((model, id) => {
-        sceneData.push({
-          id,
-          transform: {
-            position: { x: model.position.x, y: model.position.y, z: model.position.z },
-            rotation: {
-              x: THREE.MathUtils.radToDeg(model.rotation.x),
-              y: THREE.MathUtils.radToDeg(model.rotation.y),
-              z: THREE.MathUtils.radToDeg(model.rotation.z),
-            },
-            scale: { x: model.scale.x, y: model.scale.y, z: model.scale.z },
+        sceneData.push({ id, transform: getWorldTransform(model) });
+      });
+      return sceneData;
+    },
+    exportGlb: () => {
+      const scene = sceneRef.current;
+      const calibrated = perspectiveCameraRef.current;
+      const roots = [...modelsRef.current.values()].filter(model => model.parent === scene);
+      // The calibrated view as it is now, plus every named camera.
+      return exportGlb(roots, [
+        ...(calibrated
+          ? [{ name: 'Calibrated Camera', intrinsics, position: calibrated.position.clone(), quaternion: calibrated.quaternion.clone() }]
+          : []),
+        ...cameras.map(camera => ({ name: camera.name, intrinsics: camera.intrinsics, ...extrinsicsToCameraPose(camera.extrinsics) })),
+      ]);
+    },
+    renderCameraImages: async () => {
+      const renderer = rendererRef.current;
+      const scene = sceneRef.current;
+      const { image_width: width, image_height: height, fx, fy } = intrinsics;
+      if (!renderer || !scene) throw new Error('The viewer is not ready.');
+      if (!(fx > 0 && fy > 0 && width > 0 && height > 0)) {
+        throw new Error('Set positive image size and focal lengths in the camera intrinsics first.');
+      }
+      const extrinsics = cameras.find(camera => camera.id === activeCameraId)?.extrinsics ?? IDENTITY_EXTRINSICS;
+      // Every pass renders at the frame size and is warped into the image at the end.
+      const { camera, width: renderWidth, height: renderHeight, map } = createCalibratedRender(intrinsics, extrinsics, width, height, applyLensDistortion);
+      const shown = assetsRef.current
+        .map(asset => ({ asset, model: modelsRef.current.get(asset.id) }))
+        // Groups have no geometry of their own, so they get no instance id or mask.
+        .filter((entry): entry is { asset: ThreeDAsset; model: THREE.Object3D } =>
+          entry.asset.fileType !== 'group' && !!entry.model?.children[0] && isShown(entry.model));
+      const contents = shown.map(({ model }) => model.children[0]);
+
+      // Color as the viewport shows it (lights, tone mapping), drawn into the canvas at image
+      // size and copied out before the browser presents it; the next frame restores the view.
+      const lit: THREE.Object3D[] = [];
+      scene.traverse((object: THREE.Object3D) => {
+        if ((object as THREE.Light).isLight) lit.push(object);
+      });
+      contents.forEach(content => content.traverse((object: THREE.Object3D) => lit.push(object)));
+      lit.forEach(object => object.layers.enable(OFFSCREEN_LAYER));
+      const previousSize = renderer.getSize(new THREE.Vector2());
+      const previousPixelRatio = renderer.getPixelRatio();
+      const previousClearColor = renderer.getClearColor(new THREE.Color());
+      const previousClearAlpha = renderer.getClearAlpha();
+      const previousBackground = scene.background;
+      const canvas = document.createElement('canvas');
+      canvas.width = renderWidth;
+      canvas.height = renderHeight;
+      const context = canvas.getContext('2d')!;
+      try {
+        renderer.setPixelRatio(1);
+        renderer.setSize(renderWidth, renderHeight, false);
+        renderer.setClearColor(0x000000, 0);
+        scene.background = null;
+        renderer.render(scene, camera);
+        context.drawImage(renderer.domElement, 0, 0);
+      } finally {
+        scene.background = previousBackground;
+        renderer.setClearColor(previousClearColor, previousClearAlpha);
+        renderer.setPixelRatio(previousPixelRatio);
+        renderer.setSize(previousSize.x, previousSize.y, false);
+        lit.forEach(object => object.layers.disable(OFFSCREEN_LAYER));
+      }
+      const rgb = context.getImageData(0, 0, renderWidth, renderHeight).data;
+
+      // Depth, instance ids and normals as floats. Splats have no surface and are left out.
+      const target = new THREE.WebGLRenderTarget(renderWidth, renderHeight, { type: THREE.FloatType });
+      const materials: THREE.ShaderMaterial[] = [];
+      const passMaterial = (fragmentShader: string, instanceId: number, object: THREE.Mesh | THREE.Points) => {
+        if (object.material instanceof THREE.ShaderMaterial) return null;
+        const material = new THREE.ShaderMaterial({
+          vertexShader: exportVertexShader,
+          fragmentShader,
+          side: THREE.DoubleSide,
+          uniforms: {
+            instanceId: { value: instanceId },
+            pointSize: { value: object instanceof THREE.Points ? (object.material as THREE.PointsMaterial).size ?? 1 : 1 },
           },
         });
+        materials.push(material);
+        return material;
+      };
+      // Instance ids count from 1 in `shown` order; 0 is background.
+      const instanceIds = new Map<THREE.Object3D, number>();
+      contents.forEach((content, index) => content.traverse((object: THREE.Object3D) => instanceIds.set(object, index + 1)));
+      let depthPixels: Float32Array;
+      let normalPixels: Float32Array;
+      try {
+        depthPixels = renderOffscreen(renderer, scene, camera, target, contents, object =>
+          passMaterial(depthFragmentShader, instanceIds.get(object) ?? 0, object)) as Float32Array;
+        normalPixels = renderOffscreen(renderer, scene, camera, target, contents, object =>
+          passMaterial(normalFragmentShader, 0, object)) as Float32Array;
+      } finally {
+        target.dispose();
+        materials.forEach(material => material.dispose());
+      }
+
+      const depthAndIds = flipChannels(depthPixels, renderWidth, renderHeight, [0, 1]);
+      const depth = new Float32Array(renderWidth * renderHeight);
+      const instances = new Uint16Array(renderWidth * renderHeight);
+      for (let i = 0; i < renderWidth * renderHeight; i++) {
+        depth[i] = depthAndIds[i * 2];
+        instances[i] = Math.round(depthAndIds[i * 2 + 1]);
+      }
+      const normals = flipChannels(normalPixels, renderWidth, renderHeight, [0, 1, 2]);
+      return {
+        width,
+        height,
+        rgb: map ? remapPixels(rgb, map, 4) : rgb,
+        depth: map ? remapPixels(depth, map, 1) : depth,
+        normals: map ? remapPixels(normals, map, 3) : normals,
+        instances: map ? remapPixels(instances, map, 1) : instances,
+        instanceAssetIds: shown.map(({ asset }) => asset.id),
+      };
+    },
+    getBoundsCenter: (ids: string[]) => {
+      const bounds = new THREE.Box3();
+      ids.forEach(id => {
+        const model = modelsRef.current.get(id);
+        if (model) bounds.expandByObject(model);
       });
-      return sceneData;
+      if (bounds.isEmpty()) return null;
+      const center = bounds.getCenter(new THREE.Vector3());
+      return { x: center.x, y: center.y, z: center.z };
     },
     clearScene: () => {
       const scene = sceneRef.current;
@@ -60,28 +747,82 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
       if (transformControlsRef.current) {
         transformControlsRef.current.detach();
       }
-      if (boundingBoxRef.current) {
-        scene.remove(boundingBoxRef.current);
-        boundingBoxRef.current = null;
-      }
+      boundingBoxesRef.current.forEach(helper => scene.remove(helper));
+      boundingBoxesRef.current.clear();
 
       modelsRef.current.forEach((model) => {
-        model.traverse((object) => {
-          if (object instanceof THREE.Mesh) {
-            object.geometry.dispose();
-            if (Array.isArray(object.material)) {
-              object.material.forEach((material) => material.dispose());
-            } else {
-              object.material.dispose();
-            }
-          }
-        });
-        scene.remove(model);
+        disposeObject(model);
+        model.removeFromParent();
       });
 
       modelsRef.current.clear();
       setLoadedModelIds(new Set());
-    }
+    },
+    setAssetTransform,
+    dropToSurface: (ids: string[]) => {
+      const scene = sceneRef.current;
+      if (!scene) return;
+      const moving = getTopLevelModels(ids);
+      const roots = [...modelsRef.current.values()].filter(model => model.parent === scene);
+      // Assets dropped together are not surfaces for each other.
+      const exclude = new Set(moving.map(([, model]) => model));
+      const raycaster = new THREE.Raycaster();
+      raycaster.params.Points.threshold = 0.02;
+      const down = new THREE.Vector3(0, 1, 0); // Y points down
+
+      const offsets = moving.map(([id, model]) => {
+        const box = new THREE.Box3().setFromObject(model);
+        if (box.isEmpty()) return { id, offset: new THREE.Vector3() };
+        // Sample the middle and corners of the bottom face; the first surface reached wins.
+        const inset = box.getSize(new THREE.Vector3()).multiplyScalar(0.25);
+        const center = box.getCenter(new THREE.Vector3());
+        let drop = Infinity;
+        [[0, 0], [-1, -1], [-1, 1], [1, -1], [1, 1]].forEach(([dx, dz]) => {
+          raycaster.set(new THREE.Vector3(center.x + dx * inset.x, box.max.y, center.z + dz * inset.z), down);
+          const hit = raycastAssets(raycaster, roots, exclude);
+          if (hit) drop = Math.min(drop, hit.y - box.max.y);
+        });
+        if (!Number.isFinite(drop) && groundLevelRef.current > box.max.y) {
+          drop = groundLevelRef.current - box.max.y;
+        }
+        return { id, offset: new THREE.Vector3(0, Number.isFinite(drop) ? drop : 0, 0) };
+      });
+      translateModels(offsets, 'Drop to surface');
+    },
+    alignAssets: (ids: string[], axis: keyof Vector3, mode: AlignMode) => {
+      const moving = getTopLevelModels(ids);
+      if (moving.length < 2) return;
+      const boxes = moving.map(([id, model]) => ({ id, box: new THREE.Box3().setFromObject(model) }))
+        .filter(({ box }) => !box.isEmpty());
+      const bounds = new THREE.Box3();
+      boxes.forEach(({ box }) => bounds.union(box));
+      const edge = (box: THREE.Box3) =>
+        mode === 'min' ? box.min[axis] : mode === 'max' ? box.max[axis] : box.getCenter(new THREE.Vector3())[axis];
+      const target = edge(bounds);
+      translateModels(boxes.map(({ id, box }) => {
+        const offset = new THREE.Vector3();
+        offset[axis] = target - edge(box);
+        return { id, offset };
+      }), `Align ${axis.toUpperCase()}`);
+    },
+    distributeAssets: (ids: string[], axis: keyof Vector3) => {
+      const centers = getTopLevelModels(ids)
+        .map(([id, model]) => ({ id, box: new THREE.Box3().setFromObject(model) }))
+        .filter(({ box }) => !box.isEmpty())
+        .map(({ id, box }) => ({ id, center: box.getCenter(new THREE.Vector3())[axis] }))
+        .sort((a, b) => a.center - b.center);
+      if (centers.length < 3) return;
+      // Even spacing of centers between the two outermost assets, which stay put.
+      const first = centers[0].center;
+      const step = (centers[centers.length - 1].center - first) / (centers.length - 1);
+      translateModels(centers.map(({ id, center }, index) => {
+        const offset = new THREE.Vector3();
+        offset[axis] = first + index * step - center;
+        return { id, offset };
+      }), `Distribute ${axis.toUpperCase()}`);
+    },
+    undo: () => historyRef.current.undo(),
+    redo: () => historyRef.current.redo(),
   }));
 
   // Initialization
@@ -123,20 +864,228 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
     orthographicCameraRef.current = orthographicCamera;
     scene.add(orthographicCamera);
 
+    const editorCamera = new THREE.PerspectiveCamera(60, mountRef.current.clientWidth / mountRef.current.clientHeight, 0.01, 1000);
+    editorCamera.up.set(0, -1, 0); // Y is down; must be set before the orbit controls read it
+    editorCameraRef.current = editorCamera;
+    scene.add(editorCamera);
+
     // Configure renderer for a brighter, more physically correct output
     renderer.outputColorSpace = THREE.SRGBColorSpace;
     renderer.toneMapping = THREE.ACESFilmicToneMapping;
     renderer.setSize(mountRef.current.clientWidth, mountRef.current.clientHeight);
     renderer.setPixelRatio(window.devicePixelRatio);
     mountRef.current.appendChild(renderer.domElement);
+
+    // Measurement labels are HTML elements laid over the canvas.
+    const labelRenderer = new CSS2DRenderer();
+    labelRenderer.setSize(mountRef.current.clientWidth, mountRef.current.clientHeight);
+    labelRenderer.domElement.style.position = 'absolute';
+    labelRenderer.domElement.style.top = '0';
+    labelRenderer.domElement.style.pointerEvents = 'none';
+    mountRef.current.appendChild(labelRenderer.domElement);
+
+    const measurementGroup = new THREE.Group();
+    measurementGroupRef.current = measurementGroup;
+    scene.add(measurementGroup);
     
     const transformControls = new TransformControls(perspectiveCamera, renderer.domElement);
+
+    const selectionPivot = new THREE.Object3D();
+    selectionPivotRef.current = selectionPivot;
+    scene.add(selectionPivot);
+
+    const getRenderCamera = (): THREE.Camera =>
+      isTopDownViewRef.current ? orthographicCamera : isEditorCameraRef.current ? editorCamera : perspectiveCamera;
+
+    // While the lens warp is applied, the canvas shows the distorted image but the
+    // perspective camera projects the pinhole frame; these convert between the two.
+    const canvasToFrameNdc = (ndc: THREE.Vector2): THREE.Vector2 | null => {
+      const warp = lensWarpRef.current;
+      if (!warp || getRenderCamera() !== perspectiveCamera) return ndc;
+      const { intrinsics, frame } = warp;
+      const pinhole = undistortPixel(intrinsics, (ndc.x + 1) / 2 * intrinsics.image_width, (1 - ndc.y) / 2 * intrinsics.image_height);
+      if (!pinhole) return null;
+      return new THREE.Vector2(
+        (pinhole[0] + frame.cx - intrinsics.cx) / frame.image_width * 2 - 1,
+        1 - (pinhole[1] + frame.cy - intrinsics.cy) / frame.image_height * 2
+      );
+    };
+    const frameToCanvasNdc = (ndc: THREE.Vector3): THREE.Vector3 => {
+      const warp = lensWarpRef.current;
+      // Outside the frame the lens model is unreliable, and the point is off the canvas anyway.
+      if (!warp || getRenderCamera() !== perspectiveCamera || Math.abs(ndc.x) > 1 || Math.abs(ndc.y) > 1) return ndc;
+      const { intrinsics, frame } = warp;
+      const [u, v] = distortPixel(
+        intrinsics,
+        (ndc.x + 1) / 2 * frame.image_width - (frame.cx - intrinsics.cx),
+        (1 - ndc.y) / 2 * frame.image_height - (frame.cy - intrinsics.cy)
+      );
+      return new THREE.Vector3(u / intrinsics.image_width * 2 - 1, 1 - v / intrinsics.image_height * 2, ndc.z);
+    };
+
+    // Finds the nearest visible asset under a canvas position and where the ray hits it.
+    const raycaster = new THREE.Raycaster();
+    raycaster.params.Points.threshold = 0.02;
+    const pickAt = (clientX: number, clientY: number): { id: string; point: THREE.Vector3 } | null => {
+      const rect = renderer.domElement.getBoundingClientRect();
+      const pointer = canvasToFrameNdc(new THREE.Vector2(
+        ((clientX - rect.left) / rect.width) * 2 - 1,
+        -((clientY - rect.top) / rect.height) * 2 + 1
+      ));
+      if (!pointer) return null;
+      raycaster.setFromCamera(pointer, getRenderCamera());
+
+      const wrappers = new Set(modelsRef.current.values());
+      let nearest: { id: string; point: THREE.Vector3 } | null = null;
+      let nearestDistance = Infinity;
+      for (const [id, model] of modelsRef.current.entries()) {
+        if (!isShown(model)) continue;
+        // Only the model's own geometry; nested assets are picked on their own.
+        const objects: THREE.Object3D[] = [];
+        const collect = (object: THREE.Object3D) => {
+          if (!object.visible) return; // e.g. the hidden mesh or points of a PLY
+          objects.push(object);
+          object.children.forEach(child => {
+            if (!wrappers.has(child)) collect(child);
+          });
+        };
+        collect(model);
+
+        for (const object of objects) {
+          let point: THREE.Vector3 | null = null;
+          if (object.userData.isSplat) {
+            // Splats are drawn as instanced quads in a shader; pick them by their bounds.
+            point = raycaster.ray.intersectBox(new THREE.Box3().setFromObject(object), new THREE.Vector3());
+          } else {
+            point = raycaster.intersectObject(object, false)[0]?.point ?? null;
+          }
+          const distance = point ? point.distanceTo(raycaster.ray.origin) : Infinity;
+          if (point && distance < nearestDistance) {
+            nearest = { id, point };
+            nearestDistance = distance;
+          }
+        }
+      }
+      return nearest;
+    };
+    pickAtRef.current = pickAt;
+    const pickAsset = (clientX: number, clientY: number) => pickAt(clientX, clientY)?.id ?? null;
+
+    // Assets whose bounds center falls inside a client-space rectangle.
+    const assetsInRect = (left: number, top: number, right: number, bottom: number): string[] => {
+      const rect = renderer.domElement.getBoundingClientRect();
+      const camera = getRenderCamera();
+      const ids: string[] = [];
+      modelsRef.current.forEach((model, id) => {
+        if (!isShown(model)) return;
+        const box = new THREE.Box3().setFromObject(model);
+        if (box.isEmpty()) return;
+        const ndc = frameToCanvasNdc(box.getCenter(new THREE.Vector3()).project(camera));
+        if (ndc.z < -1 || ndc.z > 1) return;
+        const x = rect.left + (ndc.x + 1) / 2 * rect.width;
+        const y = rect.top + (1 - ndc.y) / 2 * rect.height;
+        if (x >= left && x <= right && y >= top && y <= bottom) ids.push(id);
+      });
+      return ids;
+    };
+
+    // Click selects, shift/ctrl-click toggles, dragging on empty space draws a marquee
+    // (Alt+drag with the editor camera, where a plain drag orbits). Registered before
+    // the orbit controls so a marquee drag can switch them off first.
+    let press: { x: number; y: number; additive: boolean; marquee: boolean } | null = null;
+    const handleSelectPointerDown = (event: PointerEvent) => {
+      if (event.button !== 0 || transformControls.axis !== null) return;
+      const marquee = !measureToolRef.current && (!isEditorCameraRef.current || event.altKey);
+      press = { x: event.clientX, y: event.clientY, additive: event.shiftKey || event.ctrlKey || event.metaKey, marquee };
+      if (isEditorCameraRef.current && marquee) orbitControls.enabled = false;
+    };
+    const handleSelectPointerMove = (event: PointerEvent) => {
+      if (!press || !press.marquee || !mountRef.current) return;
+      if (Math.hypot(event.clientX - press.x, event.clientY - press.y) < CLICK_TOLERANCE_PX) return;
+      const mountRect = mountRef.current.getBoundingClientRect();
+      setMarquee({
+        left: Math.min(press.x, event.clientX) - mountRect.left,
+        top: Math.min(press.y, event.clientY) - mountRect.top,
+        width: Math.abs(event.clientX - press.x),
+        height: Math.abs(event.clientY - press.y),
+      });
+    };
+    const handleSelectPointerUp = (event: PointerEvent) => {
+      if (event.button !== 0 || !press) return;
+      const { x, y, additive, marquee } = press;
+      press = null;
+      setMarquee(null);
+      orbitControls.enabled = isEditorCameraRef.current && !transformControls.dragging;
+
+      const current = selectedAssetIdsRef.current;
+      const tool = measureToolRef.current;
+      if (tool) {
+        // Measuring: clicks place points on surfaces instead of selecting.
+        if (Math.hypot(event.clientX - x, event.clientY - y) >= CLICK_TOLERANCE_PX) return;
+        const hit = pickAt(event.clientX, event.clientY);
+        if (!hit) return;
+        const points = [...pendingPointsRef.current, { x: hit.point.x, y: hit.point.y, z: hit.point.z }];
+        if (points.length >= MEASUREMENT_POINT_COUNT[tool]) {
+          onAddMeasurementRef.current(tool, points);
+          setPendingPoints([]);
+        } else {
+          setPendingPoints(points);
+        }
+        return;
+      }
+      if (Math.hypot(event.clientX - x, event.clientY - y) < CLICK_TOLERANCE_PX) {
+        const id = pickAsset(event.clientX, event.clientY);
+        if (!additive) {
+          onSelectionChangeRef.current(id ? [id] : []);
+        } else if (id) {
+          onSelectionChangeRef.current(current.includes(id) ? current.filter(i => i !== id) : [...current, id]);
+        }
+      } else if (marquee) {
+        const ids = assetsInRect(
+          Math.min(x, event.clientX), Math.min(y, event.clientY),
+          Math.max(x, event.clientX), Math.max(y, event.clientY)
+        );
+        onSelectionChangeRef.current(additive ? [...current, ...ids.filter(id => !current.includes(id))] : ids);
+      }
+    };
+    renderer.domElement.addEventListener('pointerdown', handleSelectPointerDown);
+    window.addEventListener('pointermove', handleSelectPointerMove);
+    window.addEventListener('pointerup', handleSelectPointerUp);
+
+    // Left drag orbits, middle drag (or modifier + left drag) pans, the wheel zooms.
+    // The right button is left free for fly mode.
+    const orbitControls = new OrbitControls(editorCamera, renderer.domElement);
+    orbitControls.mouseButtons = { LEFT: THREE.MOUSE.ROTATE, MIDDLE: THREE.MOUSE.PAN, RIGHT: null };
+    orbitControls.enabled = false;
+    orbitControlsRef.current = orbitControls;
+    // Dragging the gizmo must not orbit the view at the same time.
+    const handleDraggingChanged = (event: { value: boolean }) => {
+      orbitControls.enabled = isEditorCameraRef.current && !event.value;
+    };
+    transformControls.addEventListener('dragging-changed', handleDraggingChanged);
     
+    // Matrices of the multi-selection at the start of a pivot drag.
+    // World matrices, since the models may be nested under different parents.
+    let groupDragStart: { pivotInverse: THREE.Matrix4; matrices: Map<string, THREE.Matrix4> } | null = null;
+
     const handleTransformChange = () => {
         if (isUpdatingProgrammatically.current) return;
-        if (boundingBoxRef.current && boundingBoxRef.current.box && transformControls.object) {
-            boundingBoxRef.current.box.setFromObject(transformControls.object);
+        if (transformControls.object === selectionPivot) {
+            if (!groupDragStart) return;
+            selectionPivot.updateMatrixWorld();
+            const delta = selectionPivot.matrixWorld.clone().multiply(groupDragStart.pivotInverse);
+            groupDragStart.matrices.forEach((matrix, id) => {
+                const model = modelsRef.current.get(id);
+                if (!model) return;
+                const world = delta.clone().multiply(matrix);
+                const local = model.parent ? model.parent.matrixWorld.clone().invert().multiply(world) : world;
+                local.decompose(model.position, model.quaternion, model.scale);
+                model.updateMatrixWorld(true);
+            });
+            refreshBoundingBoxes();
+            return;
         }
+        refreshBoundingBoxes();
         if(transformControls.object){
             const object = transformControls.object;
             onTransformChange({
@@ -151,23 +1100,187 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
         }
     };
     
+    // Record a whole gizmo drag as a single history entry.
+    let dragStart: { id: string; transform: AssetTransform }[] | null = null;
+    const findAssetId = (object: THREE.Object3D) => {
+      for (const [id, model] of modelsRef.current.entries()) {
+        if (model === object) return id;
+      }
+      return null;
+    };
+    const handleDragStart = () => {
+      const object = transformControls.object;
+      if (object && object === selectionPivot) {
+        const selectedModels = new Set(selectedAssetIdsRef.current.flatMap(id => modelsRef.current.get(id) ?? []));
+        // Children of selected models already move with their parent.
+        const isNestedInSelection = (model: THREE.Object3D) => {
+          for (let ancestor = model.parent; ancestor; ancestor = ancestor.parent) {
+            if (selectedModels.has(ancestor)) return true;
+          }
+          return false;
+        };
+        const ids = selectedAssetIdsRef.current.filter(id => {
+          const model = modelsRef.current.get(id);
+          return model && !isNestedInSelection(model);
+        });
+        selectionPivot.updateMatrixWorld();
+        groupDragStart = {
+          pivotInverse: selectionPivot.matrixWorld.clone().invert(),
+          matrices: new Map(ids.map(id => {
+            const model = modelsRef.current.get(id)!;
+            model.updateWorldMatrix(true, false);
+            return [id, model.matrixWorld.clone()];
+          })),
+        };
+        dragStart = ids.map(id => ({ id, transform: getObjectTransform(modelsRef.current.get(id)!) }));
+        return;
+      }
+      const id = object ? findAssetId(object) : null;
+      dragStart = id ? [{ id, transform: getObjectTransform(object) }] : null;
+    };
+    const handleDragEnd = () => {
+      const starts = dragStart;
+      dragStart = null;
+      groupDragStart = null;
+      if (!starts) return;
+      const changes = starts.flatMap(({ id, transform: before }) => {
+        const model = modelsRef.current.get(id);
+        const after = model ? getObjectTransform(model) : before;
+        return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ id, before, after }];
+      });
+      if (changes.length === 0) return;
+      historyRef.current.record({
+        label: changes.length > 1 ? `Transform ${transformControls.mode} (${changes.length} assets)` : `Transform ${transformControls.mode}`,
+        undo: () => changes.forEach(({ id, before }) => setAssetTransform(id, before)),
+        redo: () => changes.forEach(({ id, after }) => setAssetTransform(id, after)),
+      });
+    };
+
     transformControls.addEventListener('objectChange', handleTransformChange);
+    transformControls.addEventListener('mouseDown', handleDragStart);
+    transformControls.addEventListener('mouseUp', handleDragEnd);
     scene.add(transformControls);
     transformControlsRef.current = transformControls;
 
+    // Fly mode: hold the right mouse button to look around and move with WASD (Q/E down/up).
+    let isFlying = false;
+    const flyKeys = new Set<string>();
+    const clock = new THREE.Clock();
+
+    const updateFlight = (delta: number) => {
+      if (!isFlying || flyKeys.size === 0) return;
+      const forward = editorCamera.getWorldDirection(new THREE.Vector3());
+      const right = forward.clone().cross(editorCamera.up).normalize();
+      const up = editorCamera.up.clone();
+      const move = new THREE.Vector3();
+      if (flyKeys.has('w')) move.add(forward);
+      if (flyKeys.has('s')) move.sub(forward);
+      if (flyKeys.has('d')) move.add(right);
+      if (flyKeys.has('a')) move.sub(right);
+      if (flyKeys.has('e')) move.add(up);
+      if (flyKeys.has('q')) move.sub(up);
+      if (move.lengthSq() === 0) return;
+      const speed = FLY_SPEED * Math.max(editorCamera.position.distanceTo(orbitControls.target), 0.5);
+      move.normalize().multiplyScalar(speed * delta);
+      editorCamera.position.add(move);
+      orbitControls.target.add(move);
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 2 || !isEditorCameraRef.current) return;
+      isFlying = true;
+      renderer.domElement.setPointerCapture(event.pointerId);
+    };
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!isFlying) return;
+      // Turn the view in place: rotate the target around the camera.
+      const offset = orbitControls.target.clone().sub(editorCamera.position);
+      const right = offset.clone().cross(editorCamera.up).normalize();
+      offset.applyAxisAngle(editorCamera.up, -event.movementX * LOOK_SENSITIVITY);
+      const pitched = offset.clone().applyAxisAngle(right, -event.movementY * LOOK_SENSITIVITY);
+      // Stop short of looking straight up or down, where the orbit flips.
+      if (Math.abs(pitched.clone().normalize().dot(editorCamera.up)) < 0.99) offset.copy(pitched);
+      orbitControls.target.copy(editorCamera.position).add(offset);
+      orbitControls.update();
+    };
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.button !== 2 || !isFlying) return;
+      isFlying = false;
+      flyKeys.clear();
+      renderer.domElement.releasePointerCapture(event.pointerId);
+    };
+    const handleContextMenu = (event: MouseEvent) => event.preventDefault();
+    const handleKeyUp = (event: KeyboardEvent) => flyKeys.delete(event.key.toLowerCase());
+
+    renderer.domElement.addEventListener('pointerdown', handlePointerDown);
+    renderer.domElement.addEventListener('pointermove', handlePointerMove);
+    renderer.domElement.addEventListener('pointerup', handlePointerUp);
+    renderer.domElement.addEventListener('contextmenu', handleContextMenu);
+    window.addEventListener('keyup', handleKeyUp);
+
+    const distortionPass = createDistortionPass();
     const animate = () => {
       requestAnimationFrame(animate);
-      const camera = isTopDownViewRef.current ? orthographicCameraRef.current : perspectiveCameraRef.current;
+      updateFlight(clock.getDelta());
+      const camera = isTopDownViewRef.current
+        ? orthographicCameraRef.current
+        : isEditorCameraRef.current ? editorCameraRef.current : perspectiveCameraRef.current;
       if (renderer && scene && camera) {
-        renderer.render(scene, camera);
+        const warp = lensWarpRef.current;
+        if (warp && camera === perspectiveCamera) {
+          distortionPass.render(renderer, scene, camera, warp.intrinsics, warp.frame);
+        } else {
+          renderer.render(scene, camera);
+        }
+        labelRenderer.render(scene, camera);
       }
     };
     animate();
 
     const handleKeyDown = (event: KeyboardEvent) => {
+        if ((event.ctrlKey || event.metaKey) && ['z', 'y'].includes(event.key.toLowerCase())) {
+            // Leave text fields to their native undo.
+            const target = event.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+            event.preventDefault();
+            if (event.key.toLowerCase() === 'y' || event.shiftKey) {
+                historyRef.current.redo();
+            } else {
+                historyRef.current.undo();
+            }
+            return;
+        }
+        const key = event.key.toLowerCase();
+        if (key === 'escape' && measureToolRef.current) {
+            // First drop the points placed so far, then leave the tool.
+            if (pendingPointsRef.current.length > 0) {
+                setPendingPoints([]);
+            } else {
+                setMeasureTool(null);
+            }
+            return;
+        }
+        if (isFlying) {
+            if (['w', 'a', 's', 'd', 'q', 'e'].includes(key)) flyKeys.add(key);
+            return;
+        }
+        if (key === 'f' && !event.ctrlKey && !event.metaKey) {
+            const target = event.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+            const models = selectedAssetIdsRef.current.flatMap(id => modelsRef.current.get(id) ?? []);
+            if (models.length === 0) return;
+            if (isEditorCameraRef.current) {
+                focusOnObjects(editorCamera, orbitControls, models);
+            } else {
+                focusOnEnterRef.current = true;
+                setIsTopDownView(false);
+                setIsEditorCamera(true);
+            }
+            return;
+        }
         if (transformControlsRef.current) {
             const controls = transformControlsRef.current;
-            switch (event.key.toLowerCase()) {
+            switch (key) {
                 case 'w':
                     controls.setMode('translate');
                     controls.setSpace('world');
@@ -190,6 +1303,9 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
         const width = mountRef.current.clientWidth;
         const height = mountRef.current.clientHeight;
         rendererRef.current.setSize(width, height);
+        labelRenderer.setSize(width, height);
+        editorCamera.aspect = width / height;
+        editorCamera.updateProjectionMatrix();
         
         if (isTopDownViewRef.current) {
             const orthoCam = orthographicCameraRef.current;
@@ -215,15 +1331,29 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
     return () => {
       window.removeEventListener('resize', handleResize);
       window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('pointermove', handleSelectPointerMove);
+      window.removeEventListener('pointerup', handleSelectPointerUp);
+      renderer.domElement.removeEventListener('pointerdown', handleSelectPointerDown);
+      renderer.domElement.removeEventListener('pointerdown', handlePointerDown);
+      renderer.domElement.removeEventListener('pointermove', handlePointerMove);
+      renderer.domElement.removeEventListener('pointerup', handlePointerUp);
+      renderer.domElement.removeEventListener('contextmenu', handleContextMenu);
+      orbitControls.dispose();
+      transformControls.removeEventListener('dragging-changed', handleDraggingChanged);
       transformControls.removeEventListener('objectChange', handleTransformChange);
+      transformControls.removeEventListener('mouseDown', handleDragStart);
+      transformControls.removeEventListener('mouseUp', handleDragEnd);
       transformControls.dispose();
       pmremGenerator.dispose();
+      distortionPass.dispose();
       if (mountRef.current && rendererRef.current) {
         mountRef.current.removeChild(renderer.domElement);
+        mountRef.current.removeChild(labelRenderer.domElement);
       }
       renderer.dispose();
     };
-  }, [onTransformChange]);
+  }, [onTransformChange, setAssetTransform, refreshBoundingBoxes]);
 
   // Handle camera view mode (Perspective vs Top-Down Orthographic)
   useEffect(() => {
@@ -290,10 +1420,55 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
         perspectiveCamera.rotation.copy(savedCameraStateRef.current.rotation);
         savedCameraStateRef.current = null; // Clear saved state
       }
-      controls.camera = perspectiveCamera;
+      controls.camera = isEditorCamera && editorCameraRef.current ? editorCameraRef.current : perspectiveCamera;
     }
 
-  }, [isTopDownView, assets, loadedModelIds]); // Re-run when assets change to re-frame the view
+  }, [isTopDownView, isEditorCamera, assets, loadedModelIds]); // Re-run when assets change to re-frame the view
+
+  // Enter the editor camera from the calibrated camera's current view.
+  useEffect(() => {
+    const editorCamera = editorCameraRef.current;
+    const orbitControls = orbitControlsRef.current;
+    const perspectiveCamera = perspectiveCameraRef.current;
+    if (!editorCamera || !orbitControls || !perspectiveCamera) return;
+
+    orbitControls.enabled = isEditorCamera;
+    if (!isEditorCamera) return;
+
+    const forward = perspectiveCamera.getWorldDirection(new THREE.Vector3());
+    const sceneBounds = new THREE.Box3();
+    modelsRef.current.forEach(model => {
+      if (model.visible) sceneBounds.expandByObject(model);
+    });
+    // Orbit around the scene center as seen along the view direction.
+    const distance = sceneBounds.isEmpty()
+      ? 3
+      : Math.max(sceneBounds.getCenter(new THREE.Vector3()).sub(perspectiveCamera.position).dot(forward), 1);
+
+    editorCamera.position.copy(perspectiveCamera.position);
+    orbitControls.target.copy(perspectiveCamera.position).addScaledVector(forward, distance);
+    orbitControls.update();
+
+    if (focusOnEnterRef.current) {
+      focusOnObjects(editorCamera, orbitControls, selectedAssetIdsRef.current.flatMap(id => modelsRef.current.get(id) ?? []));
+    }
+    focusOnEnterRef.current = false;
+  }, [isEditorCamera]);
+
+  // Snap the perspective camera to the selected calibrated camera (identity for the default one).
+  const activeCamera = cameras.find(camera => camera.id === activeCameraId) ?? null;
+  useEffect(() => {
+    const camera = perspectiveCameraRef.current;
+    if (!camera) return;
+    const { position, quaternion } = extrinsicsToCameraPose(activeCamera?.extrinsics ?? IDENTITY_EXTRINSICS);
+    if (savedCameraStateRef.current) {
+      // In top-down view: return to this camera when leaving it.
+      savedCameraStateRef.current = { position, rotation: new THREE.Euler().setFromQuaternion(quaternion) };
+    } else {
+      camera.position.copy(position);
+      camera.quaternion.copy(quaternion);
+    }
+  }, [activeCamera]);
   
   // Handle viewport background image
   useEffect(() => {
@@ -302,7 +1477,8 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
     const mount = mountRef.current;
     if (!renderer || !scene || !mount) return;
 
-    if (showSourceImage && sourceImage) {
+    // The photo only lines up with the scene through the calibrated camera.
+    if (showSourceImage && sourceImage && !isEditorCamera) {
       mount.style.backgroundImage = `url(${sourceImage})`;
       mount.style.backgroundSize = 'contain';
       mount.style.backgroundRepeat = 'no-repeat';
@@ -314,38 +1490,112 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
       scene.background = new THREE.Color(0x0a0a0a);
       renderer.setClearColor(0x0a0a0a, 1); // opaque
     }
-  }, [sourceImage, showSourceImage]);
+  }, [sourceImage, showSourceImage, isEditorCamera]);
+
+  // Decode the segmentation mask at the overlay resolution
+  useEffect(() => {
+    if (!reprojection.enabled || !segmentationMask) {
+      setSegmentationLabels(null);
+      return;
+    }
+    let cancelled = false;
+    const { width, height } = overlayResolution(intrinsics);
+    loadSegmentationLabels(segmentationMask, width, height)
+      .then(labels => { if (!cancelled) setSegmentationLabels(labels); })
+      .catch(error => {
+        console.error('Error loading segmentation mask:', error);
+        if (!cancelled) setSegmentationLabels(null);
+      });
+    return () => { cancelled = true; };
+  }, [reprojection.enabled, segmentationMask, intrinsics]);
+
+  // Reproject assets through the calibrated camera into image space, redrawing whenever they move
+  const overlayActive = reprojection.enabled && !isEditorCamera && !isTopDownView;
+  useEffect(() => {
+    const canvas = reprojectionCanvasRef.current;
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const { fx, fy, image_width, image_height } = intrinsics;
+    if (!overlayActive || !canvas || !renderer || !scene || fx <= 0 || fy <= 0 || image_width <= 0 || image_height <= 0) {
+      setAlignmentScores([]);
+      return;
+    }
+
+    const { width, height } = overlayResolution(intrinsics);
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    const image = context.createImageData(width, height);
+    const labels = segmentationLabels?.length === width * height ? segmentationLabels : null;
+
+    const { camera, width: renderWidth, height: renderHeight, map } = createCalibratedRender(
+      intrinsics, activeCamera?.extrinsics ?? IDENTITY_EXTRINSICS, width, height, applyLensDistortion);
+    const target = new THREE.WebGLRenderTarget(renderWidth, renderHeight);
+    const toImage = (mask: Uint8Array) => (map ? remapPixels(mask, map, 1) : mask);
+
+    let lastSignature = '';
+    const redraw = () => {
+      const shown = assetsRef.current
+        .map((asset, index) => ({ asset, index, model: modelsRef.current.get(asset.id) }))
+        // Groups have no geometry of their own to reproject.
+        .filter((entry): entry is { asset: ThreeDAsset; index: number; model: THREE.Object3D } =>
+          entry.asset.fileType !== 'group' && !!entry.model?.children[0] && isShown(entry.model));
+      const signature = shown
+        .map(({ asset, model }) => `${asset.id}:${model.matrixWorld.elements.join(',')}`)
+        .join(';');
+      if (signature === lastSignature) return;
+      lastSignature = signature;
+
+      const layers: { mask: Uint8Array; color: [number, number, number] }[] = [];
+      const scores: { id: string; label: string; score: number | null }[] = [];
+      shown.forEach(({ asset, index, model }) => {
+        const content = model.children[0];
+        const silhouette = toImage(renderAssetMask(renderer, scene, camera, content, target, false));
+        let mask = silhouette;
+        if (reprojection.style === 'wireframe') {
+          mask = toImage(renderAssetMask(renderer, scene, camera, content, target, true));
+        } else if (reprojection.edgesOnly) {
+          mask = maskEdges(silhouette, width, height);
+        }
+        layers.push({ mask, color: reprojectionColor(index) });
+        if (labels) scores.push({ id: asset.id, label: asset.label, score: alignmentScore(silhouette, labels) });
+      });
+      paintMasks(image, layers);
+      context.putImageData(image, 0, 0);
+      setAlignmentScores(scores);
+    };
+
+    redraw();
+    const interval = window.setInterval(redraw, REPROJECTION_INTERVAL_MS);
+    return () => {
+      window.clearInterval(interval);
+      target.dispose();
+    };
+  }, [overlayActive, reprojection.style, reprojection.edgesOnly, intrinsics, applyLensDistortion, activeCamera, segmentationLabels, assets, loadedModelIds]);
 
   // Update camera intrinsics
   useEffect(() => {
     if (!perspectiveCameraRef.current) return;
-    const { image_width: width, image_height: height, fx, fy, cx, cy } = intrinsics;
+    const { image_width: width, image_height: height, fx, fy } = intrinsics;
     const camera = perspectiveCameraRef.current;
 
     if (fx > 0 && fy > 0 && width > 0 && height > 0) {
-        const near = 0.1;
-        const far = 1000;
-
-        const matrix = new THREE.Matrix4();
-        
-        matrix.set(
-            -2*fx / width, 0,                1-2*cx / width,     0,
-            0,            -2*fy / height,    2*cy / height-1,   0,
-            0,            0,                  -(far + near) / (far - near), -2 * far * near / (far - near),
-            0,            0,                  -1,                           0
-        )
-
+        // With lens distortion the camera renders a wider pinhole frame, which the render loop warps into the image.
+        const frame = applyLensDistortion && intrinsics.distortion ? undistortedFrame(intrinsics) : null;
+        lensWarpRef.current = frame && { intrinsics, frame };
+        const matrix = intrinsicsProjection(frame ?? intrinsics, 0.1, 1000);
         camera.projectionMatrix.copy(matrix);
         camera.projectionMatrixInverse.copy(matrix).invert();
         isUsingIntrinsicsRef.current = true;
     } else {
+        lensWarpRef.current = null;
         isUsingIntrinsicsRef.current = false;
         if (mountRef.current) {
             camera.aspect = mountRef.current.clientWidth / mountRef.current.clientHeight;
             camera.updateProjectionMatrix();
         }
     }
-  }, [intrinsics]);
+  }, [intrinsics, applyLensDistortion]);
 
   // Load, add, remove, and update visibility of assets in the scene
   useEffect(() => {
@@ -359,7 +1609,11 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
         if (transformControlsRef.current?.object === model) {
             transformControlsRef.current.detach();
         }
-        scene.remove(model);
+        // Keep nested assets in place; they are re-nested below.
+        modelsRef.current.forEach(other => {
+            if (other.parent === model) scene.attach(other);
+        });
+        model.removeFromParent();
         modelsRef.current.delete(id);
         setLoadedModelIds(prev => {
             const newSet = new Set(prev);
@@ -379,19 +1633,25 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
             isVisible = false;
         }
         model.visible = isVisible;
+        // The loaded content is the wrapper's first child; nested assets come after it.
+        const content = model.children[0];
+        if (content?.userData.isPlyDisplay) {
+            applyPointDisplay(content, asset.pointDisplay ?? DEFAULT_POINT_DISPLAY);
+        }
       } else {
         // Model doesn't exist, load it
-        const url = URL.createObjectURL(asset.data);
-        const onError = (error: ErrorEvent) => console.error('Error loading model:', error);
-        
         const onLoad = (object: THREE.Object3D) => {
             const wrapper = new THREE.Group();
+            wrapper.name = asset.label;
             
             const box = new THREE.Box3().setFromObject(object);
             const center = box.getCenter(new THREE.Vector3());
   
             object.position.sub(center); // Center the geometry inside the wrapper
             wrapper.add(object);
+            if (object.userData.isPlyDisplay) {
+                applyPointDisplay(object, asset.pointDisplay ?? DEFAULT_POINT_DISPLAY);
+            }
   
             // Apply initial transform if it exists
             if (asset.initialTransform) {
@@ -403,9 +1663,27 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
                     THREE.MathUtils.degToRad(rotation.z)
                 );
                 wrapper.scale.set(scale.x, scale.y, scale.z);
+
+                if (asset.transformOrigin === 'origin') {
+                    // The transform places the geometry's origin, but the wrapper sits at
+                    // its center: move the wrapper by the transformed center offset.
+                    wrapper.position.add(center.clone().multiply(wrapper.scale).applyQuaternion(wrapper.quaternion));
+                }
             } else {
                 // If no transform, move the wrapper to the object's original center
                 wrapper.position.copy(center);
+
+                if (asset.placeBesideScene) {
+                    // Shift along +X past the existing assets when the new one would overlap them.
+                    const sceneBounds = new THREE.Box3();
+                    modelsRef.current.forEach(model => {
+                        if (model.visible) sceneBounds.expandByObject(model);
+                    });
+                    if (!sceneBounds.isEmpty() && sceneBounds.intersectsBox(box)) {
+                        const gap = 0.1 * Math.max(box.getSize(new THREE.Vector3()).x, 0.1);
+                        wrapper.position.x += sceneBounds.max.x - box.min.x + gap;
+                    }
+                }
             }
             
             // Set initial visibility
@@ -417,61 +1695,130 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
 
             modelsRef.current.set(asset.id, wrapper);
             scene.add(wrapper);
-            URL.revokeObjectURL(url);
+            syncHierarchy();
             setLoadedModelIds(prev => new Set(prev).add(asset.id));
           };
 
-        if (asset.fileType === 'ply') {
-          new PLYLoader().load(url, (geometry) => {
-            geometry.computeVertexNormals();
-            const material = new THREE.MeshStandardMaterial({ vertexColors: true });
-            const mesh = new THREE.Mesh(geometry, material);
-            onLoad(mesh);
-          }, undefined, onError);
-        } else if (asset.fileType === 'glb') {
-          new GLTFLoader().load(url, (gltf) => {
-            onLoad(gltf.scene);
-          }, undefined, onError);
+        if (asset.fileType === 'group') {
+          onLoad(new THREE.Group());
+        } else {
+          loadAssetObject(asset).then(onLoad).catch((error) => console.error(`Error loading ${asset.label}:`, error));
         }
       }
     });
-  }, [assets, showSourceImage]);
+    syncHierarchy();
+  }, [assets, showSourceImage, syncHierarchy]);
+
+  // Redraw measurements and the one being placed.
+  useEffect(() => {
+    const group = measurementGroupRef.current;
+    if (!group) return;
+    group.traverse(object => {
+      if (object instanceof THREE.Points || object instanceof THREE.Line) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+    // Removing the label objects also removes their elements.
+    [...group.children].forEach(child => {
+      [...child.children].forEach(grandchild => child.remove(grandchild));
+      group.remove(child);
+    });
+    measurements.forEach(measurement => {
+      group.add(createMeasurementObject(measurement.points, MEASUREMENT_COLOR, formatMeasurement(measurement)));
+    });
+    if (pendingPoints.length > 0) {
+      group.add(createMeasurementObject(pendingPoints, PENDING_MEASUREMENT_COLOR, null));
+    }
+  }, [measurements, pendingPoints]);
+
+  // Switching tools starts a new measurement.
+  useEffect(() => {
+    setPendingPoints([]);
+  }, [measureTool]);
+
+  // Gizmo snapping increments.
+  useEffect(() => {
+    const controls = transformControlsRef.current;
+    if (!controls) return;
+    const { enabled, translation, rotation, scale } = snapSettings;
+    controls.setTranslationSnap(enabled && translation > 0 ? translation : null);
+    controls.setRotationSnap(enabled && rotation > 0 ? THREE.MathUtils.degToRad(rotation) : null);
+    controls.setScaleSnap(enabled && scale > 0 ? scale : null);
+  }, [snapSettings]);
+
+  // A ground grid in the XZ plane at the bottom of the scene, spaced by the snap increment.
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const bounds = new THREE.Box3();
+    modelsRef.current.forEach(model => {
+      if (model.visible) bounds.expandByObject(model);
+    });
+    groundLevelRef.current = bounds.isEmpty() ? 0 : bounds.max.y;
+
+    gridRef.current?.removeFromParent();
+    gridRef.current?.dispose();
+    gridRef.current = null;
+    if (!showGrid) return;
+
+    const cellSize = snapSettings.enabled && snapSettings.translation > 0 ? snapSettings.translation : 1;
+    const extent = bounds.isEmpty() ? 10 : Math.max(10, 2 * Math.max(bounds.max.x - bounds.min.x, bounds.max.z - bounds.min.z));
+    const divisions = Math.min(MAX_GRID_DIVISIONS, Math.max(1, Math.ceil(extent / cellSize)));
+    const grid = new THREE.GridHelper(divisions * cellSize, divisions, 0x8888aa, 0x555566);
+    const center = bounds.isEmpty() ? new THREE.Vector3() : bounds.getCenter(new THREE.Vector3());
+    // Keep grid lines on multiples of the cell size so snapped positions sit on them.
+    const offset = divisions % 2 === 0 ? 0 : cellSize / 2;
+    grid.position.set(
+      Math.round(center.x / cellSize) * cellSize + offset,
+      groundLevelRef.current,
+      Math.round(center.z / cellSize) * cellSize + offset
+    );
+    scene.add(grid);
+    gridRef.current = grid;
+  }, [showGrid, snapSettings, loadedModelIds, assets]);
 
-  // Add/Update bounding box and gizmo for active asset
+  // Add/Update bounding boxes and the gizmo for the selection
   useEffect(() => {
     const scene = sceneRef.current;
     const controls = transformControlsRef.current;
-    if (!scene || !controls) return;
+    const pivot = selectionPivotRef.current;
+    if (!scene || !controls || !pivot) return;
     
-    if (boundingBoxRef.current) {
-        scene.remove(boundingBoxRef.current);
-        boundingBoxRef.current = null;
-    }
+    boundingBoxesRef.current.forEach(helper => scene.remove(helper));
+    boundingBoxesRef.current.clear();
     controls.detach();
-    
-    if (activeAssetId && modelsRef.current.has(activeAssetId)) {
-        const model = modelsRef.current.get(activeAssetId);
-        if (model) {
-            controls.attach(model);
-            const box = new THREE.Box3().setFromObject(model);
-            if (!box.isEmpty()){
-                const boxHelper = new THREE.Box3Helper(box, 0xffff00); // Yellow
-                scene.add(boxHelper);
-                boundingBoxRef.current = boxHelper;
-            }
-            // Report initial transform when asset is selected
-             onTransformChange({
-                position: { x: model.position.x, y: model.position.y, z: model.position.z },
-                rotation: { 
-                    x: THREE.MathUtils.radToDeg(model.rotation.x),
-                    y: THREE.MathUtils.radToDeg(model.rotation.y),
-                    z: THREE.MathUtils.radToDeg(model.rotation.z) 
-                },
-                scale: { x: model.scale.x, y: model.scale.y, z: model.scale.z }
-            });
+
+    const selectedModels = selectedAssetIds.flatMap(id => {
+        const model = modelsRef.current.get(id);
+        return model ? [{ id, model }] : [];
+    });
+    selectedModels.forEach(({ id, model }) => {
+        const box = new THREE.Box3().setFromObject(model);
+        if (!box.isEmpty()){
+            const boxHelper = new THREE.Box3Helper(box, 0xffff00); // Yellow
+            scene.add(boxHelper);
+            boundingBoxesRef.current.set(id, boxHelper);
         }
+    });
+
+    if (selectedModels.length > 1) {
+        // Several assets: drive them through a pivot at the center of their combined bounds.
+        const bounds = new THREE.Box3();
+        selectedModels.forEach(({ model }) => bounds.expandByObject(model));
+        pivot.position.copy(bounds.isEmpty() ? new THREE.Vector3() : bounds.getCenter(new THREE.Vector3()));
+        pivot.rotation.set(0, 0, 0);
+        pivot.scale.set(1, 1, 1);
+        pivot.updateMatrixWorld(true);
+        controls.attach(pivot);
+    } else if (selectedModels.length === 1) {
+        const { model } = selectedModels[0];
+        controls.attach(model);
+        // Report initial transform when asset is selected
+        onTransformChange(getObjectTransform(model));
     }
-  }, [activeAssetId, loadedModelIds, onTransformChange]);
+    refreshBoundingBoxes();
+  }, [selectedAssetIds, loadedModelIds, onTransformChange, refreshBoundingBoxes]);
 
 
   // Apply transform from external state (e.g., input boxes)
@@ -493,28 +1840,171 @@ const ThreeDViewer: React.ForwardRefRenderFunction<ThreeDViewerRef, ThreeDViewer
           // are based on the most up-to-date transformation data.
           model.updateMatrixWorld(true);
 
-          if (boundingBoxRef.current) {
-              boundingBoxRef.current.box.setFromObject(model);
-          }
+          refreshBoundingBoxes();
 
           // A brief timeout helps prevent race conditions with the event listener
           setTimeout(() => {
             isUpdatingProgrammatically.current = false;
           }, 0);
       }
-  }, [activeAssetTransform, activeAssetId]);
+  }, [activeAssetTransform, activeAssetId, refreshBoundingBoxes]);
+
 
+  const handleFilesAt = (files: File[], clientX: number, clientY: number) => {
+    const hit = pickAtRef.current?.(clientX, clientY);
+    onDropFiles(files, hit ? { x: hit.point.x, y: hit.point.y, z: hit.point.z } : null);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    // Only OS files; asset rows dragged from the AssetPanel are not imports.
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    setIsDraggingFiles(false);
+    const files = Array.from(event.dataTransfer.files) as File[];
+    if (files.length === 0) return;
+    event.preventDefault();
+    handleFilesAt(files, event.clientX, event.clientY);
+  };
+
+  // Pasted files land under the last cursor position, or beside the scene when the cursor is elsewhere.
+  const handlePaste = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    const files = Array.from(event.clipboardData.files) as File[];
+    if (files.length === 0) return;
+    event.preventDefault();
+    const pointer = lastPointerRef.current;
+    if (pointer) {
+      handleFilesAt(files, pointer.clientX, pointer.clientY);
+    } else {
+      onDropFiles(files, null);
+    }
+  };
 
   return (
-    <div ref={mountRef} className="w-full h-full relative">
+    <div
+      ref={mountRef}
+      className="w-full h-full relative focus:outline-none"
+      tabIndex={-1}
+      onPointerDown={(e) => e.currentTarget.focus()}
+      onPointerMove={(e) => { lastPointerRef.current = { clientX: e.clientX, clientY: e.clientY }; }}
+      onPointerLeave={() => { lastPointerRef.current = null; }}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+      }}
+      onDrop={handleDrop}
+      onPaste={handlePaste}
+    >
       {/* Renderer canvas is attached here */}
+      <canvas
+        ref={reprojectionCanvasRef}
+        className={`absolute inset-0 w-full h-full pointer-events-none ${overlayActive ? '' : 'hidden'}`}
+        style={{ objectFit: 'contain', opacity: reprojection.opacity }}
+      />
       <div className="absolute bottom-2 left-2 bg-gray-900 bg-opacity-70 text-gray-200 text-xs p-2 rounded-md font-mono select-none">
         <div><strong>W</strong>: Translate (World)</div>
         <div><strong>E</strong>: Rotate (Local)</div>
         <div><strong>R</strong>: Scale (Local)</div>
+        <div><strong>Ctrl+Z</strong>: Undo / <strong>Ctrl+Shift+Z</strong>: Redo</div>
+        <div><strong>Click</strong>: Select / <strong>Shift+Click</strong>: Add / <strong>Drag</strong>: Box Select</div>
+        <div><strong>F</strong>: Focus Selection</div>
+        <div><strong>Drop / Paste</strong>: Import Files</div>
+        {measureTool && (
+          <div><strong>Click</strong>: Place {measureTool === 'distance' ? '2' : '3'} points / <strong>Esc</strong>: Cancel</div>
+        )}
+        {isEditorCamera && (
+          <>
+            <div><strong>Drag</strong>: Orbit / <strong>Alt+Drag</strong>: Box Select</div>
+            <div><strong>Middle Drag</strong>: Pan / <strong>Wheel</strong>: Zoom</div>
+            <div><strong>Right Drag + WASD</strong>: Fly (<strong>Q/E</strong>: Down/Up)</div>
+          </>
+        )}
+      </div>
+      <div className="absolute top-2 left-1/2 -translate-x-1/2 flex space-x-1">
+        {(['distance', 'angle'] as const).map(tool => (
+          <button
+            key={tool}
+            onClick={() => setMeasureTool(measureTool === tool ? null : tool)}
+            className={`px-2 py-1 rounded-md text-xs text-white capitalize transition-colors hover:bg-indigo-500 ${
+              measureTool === tool ? 'bg-indigo-600' : 'bg-gray-900 bg-opacity-70'
+            }`}
+            title={tool === 'distance' ? 'Measure the distance between two surface points' : 'Measure the angle at the middle of three surface points'}
+            aria-pressed={measureTool === tool}
+          >
+            {tool}
+          </button>
+        ))}
       </div>
+      {overlayActive && alignmentScores.length > 0 && (
+        <div className="absolute top-14 right-2 bg-gray-900 bg-opacity-70 text-gray-200 text-xs p-2 rounded-md select-none pointer-events-none">
+          <div className="font-semibold mb-1">Alignment (IoU)</div>
+          {alignmentScores.map(({ id, label, score }) => (
+            <div key={id} className="flex justify-between space-x-3">
+              <span className="truncate max-w-[10rem]">{label}</span>
+              <span className="font-mono">{score === null ? 'off-image' : `${Math.round(score * 100)}%`}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {selectionSize && (
+        <div className="absolute bottom-2 right-2 bg-gray-900 bg-opacity-70 text-gray-200 text-xs p-2 rounded-md font-mono select-none pointer-events-none">
+          X {selectionSize.x.toFixed(3)} × Y {selectionSize.y.toFixed(3)} × Z {selectionSize.z.toFixed(3)}
+        </div>
+      )}
+      {isDraggingFiles && (
+        <div className="absolute inset-2 border-2 border-dashed border-indigo-400 rounded-lg bg-indigo-500 bg-opacity-10 flex items-center justify-center pointer-events-none">
+          <span className="bg-gray-900 bg-opacity-80 text-gray-100 text-sm px-3 py-2 rounded-md">
+            Drop 3D files to place them, a scene .zip to open it, or an image to use as the overlay
+          </span>
+        </div>
+      )}
+      {marquee && (
+        <div
+          className="absolute border border-indigo-400 bg-indigo-500 bg-opacity-20 pointer-events-none"
+          style={marquee}
+        />
+      )}
+      <button
+        onClick={() => {
+          setIsEditorCamera(!isEditorCamera);
+          setIsTopDownView(false);
+        }}
+        className={`absolute top-2 right-14 p-2 rounded-md transition-colors hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 focus:ring-offset-gray-800 ${
+          isEditorCamera ? 'bg-indigo-600' : 'bg-gray-900 bg-opacity-70'
+        }`}
+        title={isEditorCamera ? 'Snap Back to Calibrated Camera' : 'Toggle Editor Camera (Orbit / Fly)'}
+        aria-pressed={isEditorCamera}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+        </svg>
+      </button>
+      {cameras.length > 0 && (
+        <select
+          value={activeCameraId ?? ''}
+          onChange={(e) => {
+            onSelectCamera(e.target.value || null);
+            setIsTopDownView(false);
+            setIsEditorCamera(false);
+          }}
+          className="absolute top-2 left-2 bg-gray-900 bg-opacity-70 text-gray-200 text-sm p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          title="Switch Camera"
+        >
+          <option value="">Default Camera</option>
+          {cameras.map(camera => (
+            <option key={camera.id} value={camera.id}>{camera.name}</option>
+          ))}
+        </select>
+      )}
       <button
-        onClick={() => setIsTopDownView(!isTopDownView)}
+        onClick={() => {
+          setIsTopDownView(!isTopDownView);
+          setIsEditorCamera(false);
+        }}
         className={`absolute top-2 right-2 p-2 rounded-md transition-colors hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 focus:ring-offset-gray-800 ${
           isTopDownView ? 'bg-indigo-600' : 'bg-gray-900 bg-opacity-70'
         }`}
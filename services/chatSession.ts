@@ -0,0 +1,88 @@
+import { GeminiPart, ConversationTurn, SceneSnapshot } from '../types';
+import { getModelProvider } from './modelProvider';
+import { StreamOptions } from './streaming';
+import { errorParts } from './geminiService';
+
+/**
+ * Serializes the editable scene into a text part the model can reason about.
+ * @param scene Labels, transforms and intrinsics of the current scene.
+ * @returns A text part describing the scene.
+ */
+export const describeScene = (scene: SceneSnapshot): GeminiPart => {
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  const description = {
+    conventions: 'Camera at the origin looking along +Z, Y points down. Rotations are Euler XYZ in degrees. Transforms are in scene space.',
+    intrinsics: scene.intrinsics,
+    objects: scene.assets.map(asset => ({
+      label: asset.label,
+      visible: asset.visible,
+      ...(asset.parent ? { parent: asset.parent } : {}),
+      position: [round(asset.transform.position.x), round(asset.transform.position.y), round(asset.transform.position.z)],
+      rotation: [round(asset.transform.rotation.x), round(asset.transform.rotation.y), round(asset.transform.rotation.z)],
+      scale: [round(asset.transform.scale.x), round(asset.transform.scale.y), round(asset.transform.scale.z)],
+    })),
+  };
+  return { text: `Current scene state:\n${JSON.stringify(description, null, 2)}` };
+};
+
+/**
+ * A multi-turn conversation with the model. Each successful exchange is kept,
+ * including the returned Structure3D/CameraIntrinsics parts, and replayed on
+ * the next request so follow-up prompts can refer to earlier results.
+ */
+export class ChatSession {
+  private turns: ConversationTurn[];
+
+  constructor(turns: ConversationTurn[] = []) {
+    this.turns = [...turns];
+  }
+
+  public getTurns(): ConversationTurn[] {
+    return this.turns;
+  }
+
+  public reset() {
+    this.turns = [];
+  }
+
+  // Continues a saved conversation, e.g. when a project is reopened.
+  public restore(turns: ConversationTurn[]) {
+    this.turns = [...turns];
+  }
+
+  /**
+   * Sends the next user turn and streams the response.
+   * @param request The user's parts (prompt text, images).
+   * @param endpoint The Server Endpoint value; selects the model provider.
+   * @param options `scene` prepends a description of the current scene to the turn;
+   *   `signal` and `onChunk` control streaming.
+   * @returns The model's response parts. On error a text part describing it is
+   *   returned instead; on cancellation, whatever arrived plus a note. Neither is kept.
+   */
+  public async send(
+    request: GeminiPart[], endpoint: string, options: StreamOptions & { scene?: SceneSnapshot } = {}
+  ): Promise<GeminiPart[]> {
+    const { scene, ...streamOptions } = options;
+    const parts = scene ? [describeScene(scene), ...request] : request;
+    const provider = getModelProvider(endpoint);
+    console.log(`Querying ${provider.name} (turn ${this.turns.length + 1})`);
+
+    let received: GeminiPart[] = [];
+    try {
+      const response = await provider.generate(parts, this.turns, {
+        ...streamOptions,
+        onChunk: (partial, completed) => {
+          received = partial;
+          streamOptions.onChunk?.(partial, completed);
+        },
+      });
+      this.turns = [...this.turns, { request: parts, response }];
+      return response;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return [...received, { text: 'Generation cancelled.' }];
+      }
+      return errorParts(error);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { GeminiPart, ConversationTurn } from '../types';
+import { ModelProvider, StreamOptions, appendStreamedPart } from './streaming';
+import { bytesToBase64 } from './protobuf';
+import { STRUCTURE3D_MIME_TYPE, Structure3DFileType, encodeStructure3D } from './scenecraftProto';
+
+// Delay between replayed parts, so the UI exercises the same streaming path as a live model.
+const REPLAY_DELAY_MS = 50;
+
+export interface FixtureRecording {
+  version: 1;
+  turns: ConversationTurn[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPart = (value: unknown): value is GeminiPart => {
+  if (!isObject(value)) return false;
+  if (value.text !== undefined && typeof value.text !== 'string') return false;
+  const { inlineData } = value;
+  return inlineData === undefined
+    || (isObject(inlineData) && typeof inlineData.mimeType === 'string' && typeof inlineData.data === 'string');
+};
+
+const isParts = (value: unknown): value is GeminiPart[] => Array.isArray(value) && value.every(isPart);
+
+// Checks a fetched fixture: a recording, or a bare array of turns.
+const parseTurns = (json: unknown, path: string): ConversationTurn[] => {
+  const turns = isObject(json) ? json.turns : json;
+  if (!Array.isArray(turns) || turns.length === 0) {
+    throw new Error(`Fixture ${path} contains no recorded turns.`);
+  }
+  return turns.map((turn, index) => {
+    if (!isObject(turn) || !isParts(turn.request) || !isParts(turn.response)) {
+      throw new Error(`Invalid fixture ${path}: turn ${index + 1} needs request and response arrays of parts.`);
+    }
+    return { request: turn.request, response: turn.response };
+  });
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const replay = async (response: GeminiPart[], { signal, onChunk }: StreamOptions): Promise<GeminiPart[]> => {
+  const parts: GeminiPart[] = [];
+  for (const part of response) {
+    await wait(REPLAY_DELAY_MS, signal);
+    const completed = appendStreamedPart(parts, part) ? [part] : [];
+    onChunk?.([...parts], completed);
+  }
+  return parts;
+};
+
+// The user's prompt is the last text part; a scene description may precede it.
+const promptText = (request: GeminiPart[]): string | undefined =>
+  [...request].reverse().find(part => part.text)?.text?.trim();
+
+/**
+ * Packages a conversation so it can be saved and replayed with `fixture:<path>`.
+ */
+export const createRecording = (turns: ConversationTurn[]): FixtureRecording => ({ version: 1, turns });
+
+/**
+ * Replays recorded responses from a JSON file served by the dev server
+ * (e.g. `fixture:/fixtures/living-room.json`). A recorded turn whose prompt
+ * matches the request is preferred; otherwise turns are replayed in order.
+ */
+export class FixtureProvider implements ModelProvider {
+  public readonly name: string;
+
+  constructor(private path: string) {
+    this.name = `Fixture (${path})`;
+  }
+
+  public async generate(request: GeminiPart[], history: ConversationTurn[], options: StreamOptions): Promise<GeminiPart[]> {
+    const response = await fetch(this.path, { signal: options.signal });
+    if (!response.ok) {
+      throw new Error(`Could not load fixture ${this.path}: HTTP ${response.status}`);
+    }
+    const json: unknown = await response.json();
+    const turns = parseTurns(json, this.path);
+
+    const prompt = promptText(request);
+    const turn = turns.find(t => promptText(t.request) === prompt)
+      ?? turns[Math.min(history.length, turns.length - 1)];
+    return replay(turn.response, options);
+  }
+}
+
+// An ASCII PLY cube with per-vertex colors, placed in front of the default camera.
+const createCubePly = (color: [number, number, number], offsetX: number): string => {
+  const h = 0.5;
+  const z = 3;
+  const corners = [
+    [-h, -h, -h], [h, -h, -h], [h, h, -h], [-h, h, -h],
+    [-h, -h, h], [h, -h, h], [h, h, h], [-h, h, h],
+  ];
+  const faces = [
+    [0, 2, 1], [0, 3, 2], [4, 5, 6], [4, 6, 7], [0, 1, 5], [0, 5, 4],
+    [2, 3, 7], [2, 7, 6], [1, 2, 6], [1, 6, 5], [0, 4, 7], [0, 7, 3],
+  ];
+  return [
+    'ply',
+    'format ascii 1.0',
+    `element vertex ${corners.length}`,
+    'property float x', 'property float y', 'property float z',
+    'property uchar red', 'property uchar green', 'property uchar blue',
+    `element face ${faces.length}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+    ...corners.map(([x, y, cz]) => `${x + offsetX} ${y} ${cz + z} ${color.join(' ')}`),
+    ...faces.map(face => `3 ${face.join(' ')}`),
+    '',
+  ].join('\n');
+};
+
+const MOCK_COLORS: [number, number, number][] = [[99, 102, 241], [34, 197, 94], [234, 179, 8], [239, 68, 68]];
+
+/**
+ * An offline stand-in for the model: answers every prompt with a short text
+ * part and a colored cube, one step to the right per turn.
+ */
+export class MockProvider implements ModelProvider {
+  public readonly name = 'Mock';
+
+  public async generate(request: GeminiPart[], history: ConversationTurn[], options: StreamOptions): Promise<GeminiPart[]> {
+    const turn = history.length;
+    return replay([
+      { text: `Mock response to "${promptText(request) ?? ''}". ` },
+      { text: 'Here is a cube.' },
+      {
+        inlineData: {
+          mimeType: STRUCTURE3D_MIME_TYPE,
+          data: bytesToBase64(encodeStructure3D({
+            fileType: Structure3DFileType.PLY,
+            data: new TextEncoder().encode(createCubePly(MOCK_COLORS[turn % MOCK_COLORS.length], turn * 1.5)),
+            label: `Mock Cube ${turn + 1}`,
+          })),
+        },
+      },
+    ], options);
+  }
+}
@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { PLYLoader } from 'three/addons/loaders/PLYLoader.js';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/addons/loaders/OBJLoader.js';
+import { MTLLoader } from 'three/addons/loaders/MTLLoader.js';
+import { STLLoader } from 'three/addons/loaders/STLLoader.js';
+import { FBXLoader } from 'three/addons/loaders/FBXLoader.js';
+import { USDZLoader } from 'three/addons/loaders/USDZLoader.js';
+import { ThreeDAsset } from '../types';
+import { isGaussianSplatPly, parseGaussianPly, parseSplats } from './splatLoader';
+import { createSplatMesh } from './splatRenderer';
+import { createPlyObject } from './pointCloud';
+
+/**
+ * The 3D file formats the editor can load. Each entry maps file extensions to
+ * a `ThreeDAsset['fileType']` and knows how to turn an asset into an Object3D.
+ * Formats that reference other files (glTF buffers and textures, OBJ materials,
+ * FBX textures) resolve them from the asset's `resources`.
+ */
+
+export type ModelFileType = Exclude<ThreeDAsset['fileType'], 'group'>;
+
+export interface AssetFormat {
+  fileType: ModelFileType;
+  extensions: string[];
+  mimeType: string;
+  load: (asset: ThreeDAsset) => Promise<THREE.Object3D>;
+}
+
+// Files that can only be loaded alongside a model that references them.
+const RESOURCE_EXTENSIONS = ['bin', 'mtl', 'png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp', 'tga', 'ktx2', 'dds'];
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+const normalizePath = (path: string) =>
+  path.replace(/\\/g, '/').replace(/^(\.\/)+/, '').split('/').filter(Boolean).join('/');
+
+/**
+ * Runs a URL-based loader against the asset's Blob, serving the files it
+ * references from `asset.resources` (by relative path, then by file name).
+ * @param asset The asset to load.
+ * @param load Starts the loader with the given manager and main file URL.
+ */
+const withResources = async <T,>(
+  asset: ThreeDAsset,
+  load: (manager: THREE.LoadingManager, url: string) => Promise<T>
+): Promise<T> => {
+  const mainUrl = URL.createObjectURL(asset.data);
+  const baseUrl = THREE.LoaderUtils.extractUrlBase(mainUrl);
+  const resources = asset.resources ?? {};
+  const byName = new Map(Object.entries(resources).map(([path, blob]) => [path.split('/').pop()!, blob]));
+  const createdUrls: string[] = [mainUrl];
+
+  const manager = new THREE.LoadingManager();
+  manager.setURLModifier((url: string) => {
+    if (url === mainUrl || !url.startsWith(baseUrl)) return url;
+    const path = normalizePath(decodeURIComponent(url.slice(baseUrl.length)));
+    const blob = resources[path] ?? byName.get(path.split('/').pop()!);
+    if (!blob) {
+      console.warn(`Missing resource "${path}" for ${asset.label}.`);
+      return url;
+    }
+    const resourceUrl = URL.createObjectURL(blob);
+    createdUrls.push(resourceUrl);
+    return resourceUrl;
+  });
+
+  try {
+    return await load(manager, mainUrl);
+  } finally {
+    // Textures may still be decoding from their URLs; release them afterwards.
+    setTimeout(() => createdUrls.forEach(url => URL.revokeObjectURL(url)), 10000);
+  }
+};
+
+const loadPly = async (asset: ThreeDAsset): Promise<THREE.Object3D> => {
+  const buffer = await asset.data.arrayBuffer();
+  // 3DGS exports use the .ply extension too; render those as splats.
+  if (isGaussianSplatPly(buffer)) {
+    return createSplatMesh(parseGaussianPly(buffer));
+  }
+  const loader = new PLYLoader();
+  // Scanner exports often carry a per-vertex intensity for color-by-intensity.
+  loader.setCustomPropertyNameMapping({ intensity: ['intensity', 'scalar_intensity'] });
+  return createPlyObject(loader.parse(buffer));
+};
+
+const loadGltf = (asset: ThreeDAsset) =>
+  withResources(asset, async (manager, url) => (await new GLTFLoader(manager).loadAsync(url)).scene);
+
+const loadObj = (asset: ThreeDAsset) =>
+  withResources(asset, async (manager, url) => {
+    const loader = new OBJLoader(manager);
+    // OBJLoader ignores `mtllib`; load the referenced material library ourselves.
+    const text = await asset.data.text();
+    const mtlName = text.match(/^mtllib\s+(.+)$/m)?.[1].trim();
+    if (mtlName) {
+      try {
+        const materials = await new MTLLoader(manager).setPath(THREE.LoaderUtils.extractUrlBase(url)).loadAsync(mtlName);
+        materials.preload();
+        loader.setMaterials(materials);
+      } catch (error) {
+        console.warn(`Could not load material library ${mtlName} for ${asset.label}:`, error);
+      }
+    }
+    return loader.parse(text);
+  });
+
+const loadStl = async (asset: ThreeDAsset): Promise<THREE.Object3D> => {
+  const geometry = new STLLoader().parse(await asset.data.arrayBuffer());
+  const hasColors = geometry.hasAttribute('color');
+  return new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ vertexColors: hasColors, color: hasColors ? 0xffffff : 0xb0b0b0 }));
+};
+
+const loadFbx = (asset: ThreeDAsset) =>
+  withResources(asset, (manager, url) => new FBXLoader(manager).loadAsync(url));
+
+const loadUsdz = async (asset: ThreeDAsset): Promise<THREE.Object3D> =>
+  new USDZLoader().parse(await asset.data.arrayBuffer());
+
+const loadSplat = async (asset: ThreeDAsset): Promise<THREE.Object3D> =>
+  createSplatMesh(parseSplats(await asset.data.arrayBuffer()));
+
+export const ASSET_FORMATS: AssetFormat[] = [
+  { fileType: 'ply', extensions: ['ply'], mimeType: 'application/x-ply', load: loadPly },
+  { fileType: 'splat', extensions: ['splat'], mimeType: 'application/octet-stream', load: loadSplat },
+  { fileType: 'glb', extensions: ['glb'], mimeType: 'model/gltf-binary', load: loadGltf },
+  { fileType: 'gltf', extensions: ['gltf'], mimeType: 'model/gltf+json', load: loadGltf },
+  { fileType: 'obj', extensions: ['obj'], mimeType: 'model/obj', load: loadObj },
+  { fileType: 'stl', extensions: ['stl'], mimeType: 'model/stl', load: loadStl },
+  { fileType: 'fbx', extensions: ['fbx'], mimeType: 'application/octet-stream', load: loadFbx },
+  { fileType: 'usdz', extensions: ['usdz'], mimeType: 'model/vnd.usdz+zip', load: loadUsdz },
+];
+
+export const MODEL_EXTENSIONS = ASSET_FORMATS.flatMap(format => format.extensions);
+
+// For file inputs: models plus the files they may reference.
+export const UPLOAD_ACCEPT = [...MODEL_EXTENSIONS, ...RESOURCE_EXTENSIONS].map(ext => `.${ext}`).join(',');
+
+export const getFormatByExtension = (extension: string): AssetFormat | undefined =>
+  ASSET_FORMATS.find(format => format.extensions.includes(extension.toLowerCase()));
+
+export const getFormat = (fileType: ModelFileType): AssetFormat | undefined =>
+  ASSET_FORMATS.find(format => format.fileType === fileType);
+
+/**
+ * Loads an asset's file into an Object3D with the loader registered for its type.
+ * @param asset A non-group asset.
+ * @returns The loaded object, not yet centered or placed.
+ */
+export const loadAssetObject = (asset: ThreeDAsset): Promise<THREE.Object3D> => {
+  const format = asset.fileType === 'group' ? undefined : getFormat(asset.fileType);
+  if (!format) {
+    return Promise.reject(new Error(`No loader registered for file type "${asset.fileType}".`));
+  }
+  return format.load(asset);
+};
+
+/**
+ * Sorts an upload into model files and the resources they may reference. A
+ * folder upload keeps its paths, so resources are keyed relative to each model.
+ * @param files Files from a file input, folder input or drop.
+ * @returns Each model file with its format and resources, and the files that are neither.
+ */
+export const groupModelFiles = (files: File[]) => {
+  const pathOf = (file: File) => normalizePath(file.webkitRelativePath || file.name);
+  const resourceFiles = files.filter(file => RESOURCE_EXTENSIONS.includes(extensionOf(file.name)));
+  const models: { file: File; format: AssetFormat; resources: Record<string, Blob> }[] = [];
+  const unsupported: File[] = [];
+
+  files.forEach(file => {
+    if (resourceFiles.includes(file)) return;
+    const format = getFormatByExtension(extensionOf(file.name));
+    if (!format) {
+      unsupported.push(file);
+      return;
+    }
+    const directory = pathOf(file).split('/').slice(0, -1).join('/');
+    const resources: Record<string, Blob> = {};
+    resourceFiles.forEach(resource => {
+      const path = pathOf(resource);
+      resources[directory && path.startsWith(`${directory}/`) ? path.slice(directory.length + 1) : path] = resource;
+    });
+    models.push({ file, format, resources });
+  });
+
+  return { models, unsupported };
+};
@@ -1,46 +1,79 @@
 
-import { GoogleGenAI, GenerateContentResponse } from '@google/genai';
-import { GeminiPart } from '../types';
+import { GoogleGenAI, Content, Part } from '@google/genai';
+import { GeminiPart, ConversationTurn } from '../types';
+import { ModelProvider, StreamOptions, appendStreamedPart } from './streaming';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use: the SDK throws in the browser without an API key,
+// which would otherwise break the offline providers too.
+let ai: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
+};
+
+export const toContents = (history: ConversationTurn[], request: GeminiPart[]): Content[] => [
+  ...history.flatMap((turn): Content[] => [
+    { role: 'user', parts: turn.request },
+    { role: 'model', parts: turn.response },
+  ]),
+  { role: 'user', parts: request },
+];
+
+export const errorParts = (error: unknown): GeminiPart[] => {
+  console.error("Error calling model:", error);
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return [{ text: `Sorry, there was an error communicating with the model: ${errorMessage}` }];
+};
 
-export const queryModel = async (prompt: string, endpoint: string): Promise<GeminiPart[]> => {
-  console.log(`Querying real Gemini model '${endpoint}' with prompt:`, prompt);
+// FIX: The type `Part` from `@google/genai` is not directly assignable to `GeminiPart` because
+// the properties on `inlineData` are optional in `Part`. We must manually map the response parts
+// to our stricter `GeminiPart` type, ensuring that `inlineData` is only included when both
+// `mimeType` and `data` are present.
+export const toGeminiParts = (parts: Part[]): GeminiPart[] =>
+  parts
+    .map((part): GeminiPart => {
+      const newPart: GeminiPart = {};
+      if (part.text) {
+        newPart.text = part.text;
+      }
+      if (part.inlineData?.mimeType && part.inlineData.data) {
+        newPart.inlineData = {
+          mimeType: part.inlineData.mimeType,
+          data: part.inlineData.data,
+        };
+      }
+      return newPart;
+    })
+    .filter((p) => p.text || p.inlineData);
 
-  try {
-    // This call now asks the model for a multi-part response directly,
-    // instead of forcing it into a single JSON object.
-    const result: GenerateContentResponse = await ai.models.generateContent({
-        model: endpoint,
-        contents: prompt,
-    
+/**
+ * Streams responses from a Gemini model through `@google/genai`.
+ * Text chunks are merged into the preceding text part; inlineData parts
+ * always arrive whole and are reported as completed.
+ */
+export class GeminiProvider implements ModelProvider {
+  public readonly name: string;
+
+  constructor(private model: string) {
+    this.name = `Gemini (${model})`;
+  }
+
+  public async generate(request: GeminiPart[], history: ConversationTurn[], { signal, onChunk }: StreamOptions): Promise<GeminiPart[]> {
+    const stream = await getClient().models.generateContentStream({
+        model: this.model,
+        contents: toContents(history, request),
+        config: { abortSignal: signal },
     });
 
-    const parts = result.candidates?.[0]?.content?.parts || [];
-
-    // FIX: The type `Part` from `@google/genai` is not directly assignable to `GeminiPart` because
-    // the properties on `inlineData` are optional in `Part`. We must manually map the response parts
-    // to our stricter `GeminiPart` type, ensuring that `inlineData` is only included when both
-    // `mimeType` and `data` are present.
-    return parts
-      .map((part): GeminiPart => {
-        const newPart: GeminiPart = {};
-        if (part.text) {
-          newPart.text = part.text;
-        }
-        if (part.inlineData?.mimeType && part.inlineData.data) {
-          newPart.inlineData = {
-            mimeType: part.inlineData.mimeType,
-            data: part.inlineData.data,
-          };
-        }
-        return newPart;
-      })
-      .filter((p) => p.text || p.inlineData);
-
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return [{ text: `Sorry, there was an error communicating with the model: ${errorMessage}` }];
+    const parts: GeminiPart[] = [];
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      const completed = toGeminiParts(chunk.candidates?.[0]?.content?.parts || [])
+        .filter(part => appendStreamedPart(parts, part));
+      onChunk?.([...parts], completed);
+    }
+    return parts;
   }
-};
+}
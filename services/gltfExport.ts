@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { CameraIntrinsics } from '../types';
+import { SplatData } from './splatLoader';
+
+/**
+ * Writes the composed scene as a single glTF 2.0 binary that other tools can open.
+ * Only what glTF can express is kept: meshes with their materials, point clouds
+ * as POINTS primitives with vertex colors, the node hierarchy and cameras.
+ */
+
+export interface ExportCamera {
+  name: string;
+  intrinsics: CameraIntrinsics;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion; // three.js camera orientation in the scene
+}
+
+// Splats need a custom shader, so they are exported as colored points at the splat centers.
+const splatsToPoints = (splats: SplatData): THREE.Points => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(splats.centers.slice(0, splats.count * 3), 3));
+  const colors = new Float32Array(splats.count * 3);
+  const color = new THREE.Color();
+  for (let i = 0; i < splats.count; i++) {
+    // Splat colors are sRGB; glTF vertex colors are linear.
+    color.setRGB(splats.colors[i * 4], splats.colors[i * 4 + 1], splats.colors[i * 4 + 2], THREE.SRGBColorSpace);
+    color.toArray(colors, i * 3);
+  }
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  return new THREE.Points(geometry, new THREE.PointsMaterial({ vertexColors: true, size: 0.01 }));
+};
+
+// Copies the visible part of a subtree, converting what glTF cannot represent.
+const cloneForExport = (object: THREE.Object3D): THREE.Object3D | null => {
+  if (!object.visible) return null;
+
+  let copy: THREE.Object3D;
+  if (object.userData.isSplat) {
+    copy = splatsToPoints(object.userData.splats);
+  } else {
+    copy = object.clone(false);
+  }
+  copy.name = object.name;
+  copy.position.copy(object.position);
+  copy.quaternion.copy(object.quaternion);
+  copy.scale.copy(object.scale);
+
+  object.children.forEach(child => {
+    const childCopy = cloneForExport(child);
+    if (childCopy) copy.add(childCopy);
+  });
+  return copy;
+};
+
+// glTF cameras look down -Z with +Y up in the image. The editor's cameras use a
+// projection that flips both image axes, i.e. a half turn about the view axis.
+const IMAGE_FLIP = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI);
+
+const toGltfCamera = ({ name, intrinsics, position, quaternion }: ExportCamera): THREE.PerspectiveCamera => {
+  const { image_width: width, image_height: height, fx, fy } = intrinsics;
+  const yfov = 2 * Math.atan(height / (2 * fy));
+  // glTF derives the horizontal FOV from the aspect ratio; fold fx != fy into it.
+  const camera = new THREE.PerspectiveCamera(THREE.MathUtils.radToDeg(yfov), (width / height) * (fy / fx), 0.1, 1000);
+  camera.name = name;
+  camera.position.copy(position);
+  camera.quaternion.copy(quaternion).multiply(IMAGE_FLIP);
+  return camera;
+};
+
+/**
+ * Bakes the given asset subtrees and cameras into a GLB.
+ * @param roots Top-level asset wrappers; nested assets are exported as child nodes.
+ * @param cameras Cameras to include as camera nodes.
+ * @returns The GLB file contents.
+ */
+export const exportGlb = async (roots: THREE.Object3D[], cameras: ExportCamera[]): Promise<ArrayBuffer> => {
+  const exportScene = new THREE.Scene();
+  // The editor's scene is Y-down; a half turn about X makes it glTF's Y-up.
+  const sceneRoot = new THREE.Group();
+  sceneRoot.name = 'Scene';
+  sceneRoot.rotation.x = Math.PI;
+  exportScene.add(sceneRoot);
+
+  roots.forEach(root => {
+    const copy = cloneForExport(root);
+    if (copy) sceneRoot.add(copy);
+  });
+  cameras.forEach(camera => sceneRoot.add(toGltfCamera(camera)));
+
+  const result = await new GLTFExporter().parseAsync(exportScene, { binary: true });
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error('The glTF exporter did not return binary output.');
+  }
+  return result;
+};
@@ -0,0 +1,134 @@
+import { GeminiPart, ConversationTurn } from '../types';
+import { ModelProvider, StreamOptions, appendStreamedPart } from './streaming';
+import { toContents } from './geminiService';
+import { MessageSchema, decodeMessage, bytesToBase64, isMessage, messageField, stringField, bytesField, listField } from './protobuf';
+
+// Just the parts of `google.ai.generativelanguage.Content` that carry text and inline data.
+const BlobSchema: MessageSchema = {
+  name: 'google.ai.generativelanguage.Blob',
+  fields: [
+    { name: 'mime_type', number: 1, type: 'string' },
+    { name: 'data', number: 2, type: 'bytes' },
+  ],
+};
+
+const PartSchema: MessageSchema = {
+  name: 'google.ai.generativelanguage.Part',
+  fields: [
+    { name: 'text', number: 2, type: 'string' },
+    { name: 'inline_data', number: 3, type: 'message', message: BlobSchema },
+  ],
+};
+
+const ContentSchema: MessageSchema = {
+  name: 'google.ai.generativelanguage.Content',
+  fields: [
+    { name: 'parts', number: 1, type: 'message', repeated: true, message: PartSchema },
+    { name: 'role', number: 2, type: 'string' },
+  ],
+};
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const decodeContentProto = (bytes: Uint8Array): GeminiPart[] =>
+  listField(decodeMessage(ContentSchema, bytes), 'parts')
+    .filter(isMessage)
+    .map((part): GeminiPart => {
+      const newPart: GeminiPart = {};
+      const text = stringField(part, 'text');
+      if (text) newPart.text = text;
+      const inlineData = messageField(part, 'inline_data');
+      const mimeType = stringField(inlineData, 'mime_type');
+      if (inlineData && mimeType) {
+        newPart.inlineData = { mimeType, data: bytesToBase64(bytesField(inlineData, 'data')) };
+      }
+      return newPart;
+    })
+    .filter(p => p.text || p.inlineData);
+
+// The parts array of a `GenerateContentResponse`, a `Content` or a bare array.
+const responseParts = (json: unknown): unknown[] => {
+  if (Array.isArray(json)) return json;
+  if (!isObject(json)) return [];
+  const candidate = Array.isArray(json.candidates) ? json.candidates[0] : undefined;
+  const content = isObject(candidate) ? candidate.content : undefined;
+  if (isObject(content) && Array.isArray(content.parts)) return content.parts;
+  return Array.isArray(json.parts) ? json.parts : [];
+};
+
+/**
+ * Accepts the JSON shapes a backend is likely to send: a Gemini
+ * `GenerateContentResponse`, a `Content` (`{ parts }`) or a bare parts array.
+ */
+const partsFromJson = (json: unknown): GeminiPart[] =>
+  responseParts(json)
+    .map((part): GeminiPart => {
+      const newPart: GeminiPart = {};
+      if (!isObject(part)) return newPart;
+      if (typeof part.text === 'string' && part.text) newPart.text = part.text;
+      const inlineData = part.inlineData ?? part.inline_data;
+      const mimeType = isObject(inlineData) ? inlineData.mimeType ?? inlineData.mime_type : undefined;
+      if (isObject(inlineData) && typeof mimeType === 'string' && typeof inlineData.data === 'string') {
+        newPart.inlineData = { mimeType, data: inlineData.data };
+      }
+      return newPart;
+    })
+    .filter((p) => p.text || p.inlineData);
+
+/**
+ * Talks to a plain HTTP backend. The request body is
+ * `{ "contents": Content[] }` in the Gemini REST shape. The response may be
+ * JSON, newline-delimited JSON (one chunk of parts per line, streamed) or a
+ * binary `Content` protobuf.
+ */
+export class HttpProvider implements ModelProvider {
+  public readonly name: string;
+
+  constructor(private url: string) {
+    this.name = `HTTP (${url})`;
+  }
+
+  public async generate(request: GeminiPart[], history: ConversationTurn[], { signal, onChunk }: StreamOptions): Promise<GeminiPart[]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/x-ndjson, application/json, application/x-protobuf',
+      },
+      body: JSON.stringify({ contents: toContents(history, request) }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    const parts: GeminiPart[] = [];
+    const emit = (newParts: GeminiPart[]) => {
+      const completed = newParts.filter(part => appendStreamedPart(parts, part));
+      onChunk?.([...parts], completed);
+    };
+
+    if (contentType.includes('ndjson') && response.body) {
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = done ? '' : lines.pop() ?? '';
+        lines.filter(line => line.trim()).forEach(line => emit(partsFromJson(JSON.parse(line))));
+        if (done) break;
+      }
+    } else if (contentType.includes('protobuf') || contentType.includes('octet-stream')) {
+      emit(decodeContentProto(new Uint8Array(await response.arrayBuffer())));
+    } else {
+      emit(partsFromJson(await response.json()));
+    }
+    return parts;
+  }
+}
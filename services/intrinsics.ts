@@ -0,0 +1,318 @@
+import { CameraIntrinsics, LensDistortion } from '../types';
+
+/**
+ * Helpers for entering camera intrinsics: fields of view, presets, checks, and
+ * the calibration files of COLMAP (`cameras.txt`) and OpenCV (FileStorage YAML).
+ *
+ * The editor puts the principal point in COLMAP's convention, where the image
+ * spans 0..width and pixel centers sit at half-integers; `cx = width / 2` is
+ * the image center. OpenCV puts pixel centers at integers, so its principal
+ * point is half a pixel smaller.
+ */
+
+// Diagonal of a 36 x 24 mm frame, which "35 mm equivalent" focal lengths refer to.
+const FULL_FRAME_DIAGONAL_MM = Math.hypot(36, 24);
+
+// OpenCV principal point = editor principal point - OPENCV_PIXEL_OFFSET.
+const OPENCV_PIXEL_OFFSET = 0.5;
+
+/**
+ * The field of view spanned by an image side.
+ * @param focal Focal length in pixels.
+ * @param size Image side in pixels.
+ * @returns The angle in degrees.
+ */
+export const focalToFov = (focal: number, size: number) =>
+  2 * Math.atan(size / (2 * focal)) * 180 / Math.PI;
+
+/**
+ * The focal length giving an image side the field of view.
+ * @param fov Angle in degrees, between 0 and 180.
+ * @param size Image side in pixels.
+ * @returns The focal length in pixels.
+ */
+export const fovToFocal = (fov: number, size: number) =>
+  size / (2 * Math.tan(fov * Math.PI / 360));
+
+export interface IntrinsicsPreset {
+  id: string;
+  label: string;
+  focalLength35mm: number; // 35 mm equivalent focal length
+}
+
+export const INTRINSICS_PRESETS: IntrinsicsPreset[] = [
+  { id: 'phone-ultrawide', label: 'Phone ultra-wide (13 mm eq.)', focalLength35mm: 13 },
+  { id: 'phone-main', label: 'Phone main camera (26 mm eq.)', focalLength35mm: 26 },
+  { id: 'phone-tele', label: 'Phone telephoto (77 mm eq.)', focalLength35mm: 77 },
+  { id: 'aps-c-kit', label: 'APS-C DSLR, 18 mm kit lens (27 mm eq.)', focalLength35mm: 27 },
+  { id: 'full-frame-24', label: 'Full-frame DSLR, 24 mm', focalLength35mm: 24 },
+  { id: 'full-frame-35', label: 'Full-frame DSLR, 35 mm', focalLength35mm: 35 },
+  { id: 'full-frame-50', label: 'Full-frame DSLR, 50 mm', focalLength35mm: 50 },
+  { id: 'full-frame-85', label: 'Full-frame DSLR, 85 mm', focalLength35mm: 85 },
+];
+
+/**
+ * Intrinsics of an ideal camera with a 35 mm equivalent focal length, centered principal point and square pixels.
+ * @param width Image width in pixels.
+ * @param height Image height in pixels.
+ * @param focalLength35mm Focal length, measured against the full-frame diagonal.
+ */
+export const intrinsicsFromPreset = (width: number, height: number, focalLength35mm: number): CameraIntrinsics => {
+  const focal = focalLength35mm * Math.hypot(width, height) / FULL_FRAME_DIAGONAL_MM;
+  return { image_width: width, image_height: height, cx: width / 2, cy: height / 2, fx: focal, fy: focal };
+};
+
+/**
+ * Fits intrinsics to another resolution of the same image, keeping the field of
+ * view and where the principal point sits relative to the image.
+ * @param intrinsics The current intrinsics.
+ * @param width The new image width in pixels.
+ * @param height The new image height in pixels.
+ */
+export const resizeIntrinsics = (intrinsics: CameraIntrinsics, width: number, height: number): CameraIntrinsics => {
+  const scaleX = width / intrinsics.image_width;
+  const scaleY = height / intrinsics.image_height;
+  return {
+    ...intrinsics,
+    image_width: width,
+    image_height: height,
+    fx: intrinsics.fx * scaleX,
+    fy: intrinsics.fy * scaleY,
+    cx: intrinsics.cx * scaleX,
+    cy: intrinsics.cy * scaleY,
+  };
+};
+
+// Coefficients each distortion model takes, at most.
+export const DISTORTION_COEFFICIENT_COUNTS: Record<LensDistortion['model'], number> = {
+  'brown-conrady': 8, // k1, k2, p1, p2, k3, k4, k5, k6
+  fisheye: 4, // k1, k2, k3, k4
+};
+
+// Coefficient names in OpenCV's order, for editing.
+export const DISTORTION_COEFFICIENT_NAMES: Record<LensDistortion['model'], string[]> = {
+  'brown-conrady': ['k1', 'k2', 'p1', 'p2', 'k3', 'k4', 'k5', 'k6'],
+  fisheye: ['k1', 'k2', 'k3', 'k4'],
+};
+
+/**
+ * Lists what is wrong with intrinsics, as short messages for the UI.
+ * @returns One message per problem; empty when the intrinsics are usable.
+ */
+export const validateIntrinsics = ({ image_width, image_height, cx, cy, fx, fy, distortion }: CameraIntrinsics): string[] => {
+  const issues: string[] = [];
+  if (!Number.isInteger(image_width) || image_width <= 0 || !Number.isInteger(image_height) || image_height <= 0) {
+    issues.push('Image width and height must be positive whole numbers.');
+  }
+  if (!(fx > 0) || !(fy > 0)) {
+    issues.push('FX and FY must be greater than zero.');
+  }
+  if (!(cx >= 0 && cx <= image_width)) {
+    issues.push('CX must lie within the image width.');
+  }
+  if (!(cy >= 0 && cy <= image_height)) {
+    issues.push('CY must lie within the image height.');
+  }
+  if (distortion) {
+    const maxCount = DISTORTION_COEFFICIENT_COUNTS[distortion.model];
+    if (distortion.coefficients.length > maxCount || !distortion.coefficients.every(Number.isFinite)) {
+      issues.push(`The ${distortion.model} model takes up to ${maxCount} finite distortion coefficients.`);
+    }
+  }
+  return issues;
+};
+
+// Trailing zero coefficients change nothing; dropping them keeps files short.
+const trimCoefficients = (coefficients: number[]) => {
+  const trimmed = [...coefficients];
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1] === 0) trimmed.pop();
+  return trimmed;
+};
+
+const withDistortion = (intrinsics: CameraIntrinsics, model: LensDistortion['model'], coefficients: number[]): CameraIntrinsics => {
+  const trimmed = trimCoefficients(coefficients);
+  return trimmed.length > 0 ? { ...intrinsics, distortion: { model, coefficients: trimmed } } : intrinsics;
+};
+
+/**
+ * Reads the cameras in a COLMAP `cameras.txt`.
+ * @param text The file contents.
+ * @returns One set of intrinsics per camera line, in file order.
+ * @throws Error naming the first line that cannot be read.
+ */
+export const parseColmapCameras = (text: string): CameraIntrinsics[] => {
+  const cameras: CameraIntrinsics[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const [, model, ...numbers] = trimmed.split(/\s+/);
+    const [width, height, ...params] = numbers.map(Number);
+    if (!model || !(width > 0) || !(height > 0) || params.some(value => !Number.isFinite(value))) {
+      throw new Error(`Line ${index + 1}: expected "CAMERA_ID MODEL WIDTH HEIGHT PARAMS[]".`);
+    }
+    const size = { image_width: width, image_height: height };
+    const expect = (count: number) => {
+      if (params.length !== count) throw new Error(`Line ${index + 1}: ${model} takes ${count} parameters, found ${params.length}.`);
+    };
+    switch (model) {
+      case 'SIMPLE_PINHOLE':
+        expect(3);
+        cameras.push({ ...size, fx: params[0], fy: params[0], cx: params[1], cy: params[2] });
+        break;
+      case 'PINHOLE':
+        expect(4);
+        cameras.push({ ...size, fx: params[0], fy: params[1], cx: params[2], cy: params[3] });
+        break;
+      case 'SIMPLE_RADIAL':
+        expect(4);
+        cameras.push(withDistortion({ ...size, fx: params[0], fy: params[0], cx: params[1], cy: params[2] }, 'brown-conrady', [params[3]]));
+        break;
+      case 'RADIAL':
+        expect(5);
+        cameras.push(withDistortion({ ...size, fx: params[0], fy: params[0], cx: params[1], cy: params[2] }, 'brown-conrady', params.slice(3)));
+        break;
+      case 'OPENCV':
+        expect(8);
+        cameras.push(withDistortion({ ...size, fx: params[0], fy: params[1], cx: params[2], cy: params[3] }, 'brown-conrady', params.slice(4)));
+        break;
+      case 'FULL_OPENCV':
+        expect(12);
+        cameras.push(withDistortion({ ...size, fx: params[0], fy: params[1], cx: params[2], cy: params[3] }, 'brown-conrady', params.slice(4)));
+        break;
+      case 'OPENCV_FISHEYE':
+        expect(8);
+        cameras.push(withDistortion({ ...size, fx: params[0], fy: params[1], cx: params[2], cy: params[3] }, 'fisheye', params.slice(4)));
+        break;
+      case 'SIMPLE_RADIAL_FISHEYE':
+        expect(4);
+        cameras.push(withDistortion({ ...size, fx: params[0], fy: params[0], cx: params[1], cy: params[2] }, 'fisheye', [params[3]]));
+        break;
+      case 'RADIAL_FISHEYE':
+        expect(5);
+        cameras.push(withDistortion({ ...size, fx: params[0], fy: params[0], cx: params[1], cy: params[2] }, 'fisheye', params.slice(3)));
+        break;
+      default:
+        throw new Error(`Line ${index + 1}: the ${model} camera model is not supported.`);
+    }
+  });
+  if (cameras.length === 0) throw new Error('The file lists no cameras.');
+  return cameras;
+};
+
+/**
+ * Writes intrinsics as a one-camera COLMAP `cameras.txt`, using the simplest
+ * model that holds them.
+ */
+export const formatColmapCameras = (intrinsics: CameraIntrinsics): string => {
+  const { image_width, image_height, fx, fy, cx, cy, distortion } = intrinsics;
+  const coefficients = distortion ? trimCoefficients(distortion.coefficients) : [];
+  const padded = (count: number) => [...coefficients, ...new Array(Math.max(0, count - coefficients.length)).fill(0)];
+  let model = 'PINHOLE';
+  let params = [fx, fy, cx, cy];
+  if (distortion?.model === 'fisheye' && coefficients.length > 0) {
+    model = 'OPENCV_FISHEYE';
+    params = [...params, ...padded(4)];
+  } else if (coefficients.length > 4) {
+    model = 'FULL_OPENCV';
+    params = [...params, ...padded(8)];
+  } else if (coefficients.length > 0) {
+    model = 'OPENCV';
+    params = [...params, ...padded(4)];
+  }
+  return [
+    '# Camera list with one line of data per camera:',
+    '#   CAMERA_ID, MODEL, WIDTH, HEIGHT, PARAMS[]',
+    '# Number of cameras: 1',
+    `1 ${model} ${image_width} ${image_height} ${params.join(' ')}`,
+    '',
+  ].join('\n');
+};
+
+// The numbers in a YAML flow sequence such as `data: [ 1., 0., 2e-3 ]`.
+const readNumberList = (text: string) =>
+  text.split(',').map(value => value.trim()).filter(Boolean).map(Number);
+
+/**
+ * Finds the `data` list of the first matrix stored under one of the keys, as
+ * written by cv::FileStorage or in ROS camera_info files.
+ */
+const readYamlMatrix = (text: string, keys: string[]): number[] | null => {
+  for (const key of keys) {
+    const keyMatch = new RegExp(`^\\s*${key}\\s*:`, 'm').exec(text);
+    if (!keyMatch) continue;
+    const rest = text.slice(keyMatch.index + keyMatch[0].length);
+    const inline = /^\s*\[([^\]]*)\]/.exec(rest);
+    const data = inline ?? /data\s*:\s*\[([^\]]*)\]/.exec(rest);
+    if (data) return readNumberList(data[1]);
+  }
+  return null;
+};
+
+const readYamlScalar = (text: string, keys: string[]): string | null => {
+  for (const key of keys) {
+    const match = new RegExp(`^\\s*${key}\\s*:\\s*["']?([^"'\\s#]+)`, 'm').exec(text);
+    if (match) return match[1];
+  }
+  return null;
+};
+
+/**
+ * Reads an OpenCV calibration YAML (cv::FileStorage output, or a ROS camera_info file).
+ * @param text The file contents.
+ * @param fallbackSize Image size to assume when the file does not give one.
+ * @throws Error when the camera matrix is missing or malformed.
+ */
+export const parseOpenCvYaml = (text: string, fallbackSize: { image_width: number; image_height: number }): CameraIntrinsics => {
+  const matrix = readYamlMatrix(text, ['camera_matrix', 'cameraMatrix', 'K']);
+  if (!matrix || matrix.length !== 9 || matrix.some(value => !Number.isFinite(value))) {
+    throw new Error('Expected a 3x3 camera_matrix with a data list.');
+  }
+  const width = Number(readYamlScalar(text, ['image_width', 'width']) ?? fallbackSize.image_width);
+  const height = Number(readYamlScalar(text, ['image_height', 'height']) ?? fallbackSize.image_height);
+  const intrinsics: CameraIntrinsics = {
+    image_width: width,
+    image_height: height,
+    fx: matrix[0],
+    fy: matrix[4],
+    cx: matrix[2] + OPENCV_PIXEL_OFFSET,
+    cy: matrix[5] + OPENCV_PIXEL_OFFSET,
+  };
+  const coefficients = readYamlMatrix(text, ['distortion_coefficients', 'dist_coeffs', 'distCoeffs', 'D']) ?? [];
+  const distortionModel = readYamlScalar(text, ['distortion_model'])?.toLowerCase();
+  const model = distortionModel === 'fisheye' || distortionModel === 'equidistant' ? 'fisheye' : 'brown-conrady';
+  return withDistortion(intrinsics, model, coefficients);
+};
+
+const formatYamlNumber = (value: number) => (Number.isInteger(value) ? `${value}.` : String(value));
+
+const formatYamlMatrix = (rows: number, cols: number, data: number[]) => [
+  '!!opencv-matrix',
+  `   rows: ${rows}`,
+  `   cols: ${cols}`,
+  '   dt: d',
+  `   data: [ ${data.map(formatYamlNumber).join(', ')} ]`,
+].join('\n');
+
+/**
+ * Writes intrinsics as a cv::FileStorage YAML file. `distortion_model` is not
+ * read by OpenCV itself, but tells fisheye coefficients apart.
+ */
+export const formatOpenCvYaml = (intrinsics: CameraIntrinsics): string => {
+  const { image_width, image_height, fx, fy, cx, cy, distortion } = intrinsics;
+  const isFisheye = distortion?.model === 'fisheye';
+  // OpenCV takes 4, 5, 8, 12 or 14 Brown-Conrady coefficients; ROS's plumb_bob is exactly 5 and
+  // rational_polynomial exactly 8.
+  const isRational = !isFisheye && (distortion?.coefficients.length ?? 0) > 5;
+  const count = isFisheye ? 4 : isRational ? 8 : 5;
+  const coefficients = [...(distortion?.coefficients ?? []), 0, 0, 0, 0, 0, 0, 0, 0].slice(0, count);
+  return [
+    '%YAML:1.0',
+    '---',
+    `image_width: ${image_width}`,
+    `image_height: ${image_height}`,
+    `camera_matrix: ${formatYamlMatrix(3, 3, [fx, 0, cx - OPENCV_PIXEL_OFFSET, 0, fy, cy - OPENCV_PIXEL_OFFSET, 0, 0, 1])}`,
+    `distortion_model: ${isFisheye ? 'fisheye' : isRational ? 'rational_polynomial' : 'plumb_bob'}`,
+    `distortion_coefficients: ${formatYamlMatrix(1, coefficients.length, coefficients)}`,
+    '',
+  ].join('\n');
+};
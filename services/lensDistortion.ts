@@ -0,0 +1,327 @@
+import * as THREE from 'three';
+import { CameraIntrinsics, LensDistortion } from '../types';
+
+/**
+ * Lens distortion for the calibrated view. The scene is rendered through an
+ * ideal pinhole camera with a frame wide enough to cover the whole distorted
+ * image, then warped so each image pixel shows what the real lens sees there.
+ *
+ * The models follow OpenCV: 'brown-conrady' is the rational radial model with
+ * tangential terms, 'fisheye' the equidistant model of cv::fisheye. Both work
+ * on normalized image coordinates ((u - cx) / fx, (v - cy) / fy).
+ */
+
+// How far outside the image the pinhole frame may reach, in image sizes per side.
+// Strong fisheye lenses see too far to the side for a pinhole camera to render.
+const MAX_FRAME_MARGIN = 0.5;
+// Border samples per image side when sizing the pinhole frame.
+const FRAME_BORDER_SAMPLES = 64;
+// Normalized distance within which an undistorted point must distort back onto its input.
+const UNDISTORT_TOLERANCE = 1e-4;
+
+const coefficientsOf = ({ model, coefficients }: LensDistortion) =>
+  Array.from({ length: model === 'fisheye' ? 4 : 8 }, (_, i) => coefficients[i] ?? 0);
+
+/**
+ * Applies lens distortion to an ideal (pinhole) normalized image point.
+ * @returns The normalized point the lens images it at.
+ */
+export const distortNormalized = (distortion: LensDistortion, x: number, y: number): [number, number] => {
+  const k = coefficientsOf(distortion);
+  const r2 = x * x + y * y;
+  if (distortion.model === 'fisheye') {
+    const r = Math.sqrt(r2);
+    if (r < 1e-8) return [x, y];
+    const theta = Math.atan(r);
+    const t2 = theta * theta;
+    const thetaD = theta * (1 + t2 * (k[0] + t2 * (k[1] + t2 * (k[2] + t2 * k[3]))));
+    return [x * thetaD / r, y * thetaD / r];
+  }
+  const radial = (1 + r2 * (k[0] + r2 * (k[1] + r2 * k[4]))) / (1 + r2 * (k[5] + r2 * (k[6] + r2 * k[7])));
+  return [
+    x * radial + 2 * k[2] * x * y + k[3] * (r2 + 2 * x * x),
+    y * radial + k[2] * (r2 + 2 * y * y) + 2 * k[3] * x * y,
+  ];
+};
+
+/**
+ * Removes lens distortion from a normalized image point, iterating like
+ * cv::undistortPoints.
+ * @returns The ideal normalized point, or null where no point in front of the camera distorts onto it.
+ */
+export const undistortNormalized = (distortion: LensDistortion, xd: number, yd: number): [number, number] | null => {
+  const k = coefficientsOf(distortion);
+  let x = xd;
+  let y = yd;
+  if (distortion.model === 'fisheye') {
+    const thetaD = Math.sqrt(xd * xd + yd * yd);
+    if (thetaD < 1e-8) return [xd, yd];
+    let theta = thetaD;
+    for (let i = 0; i < 10; i++) {
+      const t2 = theta * theta;
+      const error = theta * (1 + t2 * (k[0] + t2 * (k[1] + t2 * (k[2] + t2 * k[3])))) - thetaD;
+      theta -= error / (1 + t2 * (3 * k[0] + t2 * (5 * k[1] + t2 * (7 * k[2] + t2 * 9 * k[3]))));
+    }
+    if (!(theta >= 0 && theta < Math.PI / 2)) return null;
+    x = xd * Math.tan(theta) / thetaD;
+    y = yd * Math.tan(theta) / thetaD;
+  } else {
+    for (let i = 0; i < 20; i++) {
+      const r2 = x * x + y * y;
+      const inverseRadial = (1 + r2 * (k[5] + r2 * (k[6] + r2 * k[7]))) / (1 + r2 * (k[0] + r2 * (k[1] + r2 * k[4])));
+      const tangentialX = 2 * k[2] * x * y + k[3] * (r2 + 2 * x * x);
+      const tangentialY = k[2] * (r2 + 2 * y * y) + 2 * k[3] * x * y;
+      x = (xd - tangentialX) * inverseRadial;
+      y = (yd - tangentialY) * inverseRadial;
+    }
+  }
+  const [checkX, checkY] = distortNormalized(distortion, x, y);
+  return Math.hypot(checkX - xd, checkY - yd) < UNDISTORT_TOLERANCE ? [x, y] : null;
+};
+
+/**
+ * Maps a pixel of the real (distorted) image to where an ideal pinhole camera
+ * with the same intrinsics sees the same ray.
+ * @returns The pinhole pixel, or null if the ray cannot be recovered.
+ */
+export const undistortPixel = ({ fx, fy, cx, cy, distortion }: CameraIntrinsics, u: number, v: number): [number, number] | null => {
+  if (!distortion) return [u, v];
+  const point = undistortNormalized(distortion, (u - cx) / fx, (v - cy) / fy);
+  return point && [point[0] * fx + cx, point[1] * fy + cy];
+};
+
+/**
+ * Maps a pinhole pixel to where the real lens images the same ray.
+ * @returns The distorted pixel.
+ */
+export const distortPixel = ({ fx, fy, cx, cy, distortion }: CameraIntrinsics, u: number, v: number): [number, number] => {
+  if (!distortion) return [u, v];
+  const [x, y] = distortNormalized(distortion, (u - cx) / fx, (v - cy) / fy);
+  return [x * fx + cx, y * fy + cy];
+};
+
+/**
+ * Sizes the pinhole frame that the distorted image is warped from: the image
+ * grown (up to `MAX_FRAME_MARGIN`) until it holds every pixel the lens sees.
+ * @param intrinsics Valid intrinsics with distortion.
+ * @returns Pinhole intrinsics with whole-pixel size. Image pixel (u, v) is frame
+ *   pixel (u + frame.cx - cx, v + frame.cy - cy).
+ */
+export const undistortedFrame = (intrinsics: CameraIntrinsics): CameraIntrinsics => {
+  const { image_width: width, image_height: height, fx, fy, cx, cy } = intrinsics;
+  let minX = 0;
+  let minY = 0;
+  let maxX = width;
+  let maxY = height;
+  for (let i = 0; i <= FRAME_BORDER_SAMPLES; i++) {
+    const s = i / FRAME_BORDER_SAMPLES;
+    const border: [number, number][] = [[s * width, 0], [s * width, height], [0, s * height], [width, s * height]];
+    border.forEach(([u, v]) => {
+      const pinhole = undistortPixel(intrinsics, u, v);
+      if (!pinhole) return;
+      minX = Math.min(minX, pinhole[0]);
+      minY = Math.min(minY, pinhole[1]);
+      maxX = Math.max(maxX, pinhole[0]);
+      maxY = Math.max(maxY, pinhole[1]);
+    });
+  }
+  const left = Math.ceil(Math.min(-minX, width * MAX_FRAME_MARGIN));
+  const top = Math.ceil(Math.min(-minY, height * MAX_FRAME_MARGIN));
+  const right = Math.ceil(Math.min(maxX - width, width * MAX_FRAME_MARGIN));
+  const bottom = Math.ceil(Math.min(maxY - height, height * MAX_FRAME_MARGIN));
+  return {
+    fx,
+    fy,
+    image_width: width + left + right,
+    image_height: height + top + bottom,
+    cx: cx + left,
+    cy: cy + top,
+  };
+};
+
+/**
+ * Finds, for each pixel of the distorted image, the frame pixel it shows.
+ * @param intrinsics Intrinsics with distortion, at the image's pixel size.
+ * @param frame The frame from `undistortedFrame`.
+ * @returns Frame pixel indices, top row first, with -1 where the frame has nothing.
+ */
+export const createDistortionMap = (intrinsics: CameraIntrinsics, frame: CameraIntrinsics): Int32Array => {
+  const { image_width: width, image_height: height } = intrinsics;
+  const offsetX = frame.cx - intrinsics.cx;
+  const offsetY = frame.cy - intrinsics.cy;
+  const map = new Int32Array(width * height).fill(-1);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pinhole = undistortPixel(intrinsics, x + 0.5, y + 0.5);
+      if (!pinhole) continue;
+      const frameX = Math.floor(pinhole[0] + offsetX);
+      const frameY = Math.floor(pinhole[1] + offsetY);
+      if (frameX < 0 || frameY < 0 || frameX >= frame.image_width || frameY >= frame.image_height) continue;
+      map[y * width + x] = frameY * frame.image_width + frameX;
+    }
+  }
+  return map;
+};
+
+/**
+ * Resamples frame pixels into the distorted image (nearest neighbor, so ids and depths stay exact).
+ * @param source Frame pixels, top row first.
+ * @param map A map from `createDistortionMap`.
+ * @param channels Values per pixel.
+ * @returns Image pixels of the same type, zero where the map has no pixel.
+ */
+export const remapPixels = <T extends Uint8Array | Uint8ClampedArray | Uint16Array | Float32Array>(source: T, map: Int32Array, channels: number): T => {
+  const out = new (source.constructor as new (length: number) => T)(map.length * channels);
+  for (let i = 0; i < map.length; i++) {
+    const from = map[i];
+    if (from < 0) continue;
+    for (let c = 0; c < channels; c++) out[i * channels + c] = source[from * channels + c];
+  }
+  return out;
+};
+
+const warpVertexShader = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+// The same undistortion as `undistortNormalized`, per output pixel.
+const warpFragmentShader = /* glsl */ `
+  uniform sampler2D pinholeView;
+  uniform bool fisheye;
+  uniform float k[8];
+  uniform vec2 imageSize;
+  uniform vec2 focalLength;
+  uniform vec2 principalPoint;
+  uniform vec2 frameSize;
+  uniform vec2 frameOffset;
+  varying vec2 vUv;
+
+  vec2 distort(vec2 p) {
+    float r2 = dot(p, p);
+    if (fisheye) {
+      float r = sqrt(r2);
+      if (r < 1e-8) return p;
+      float theta = atan(r);
+      float t2 = theta * theta;
+      return p * theta * (1.0 + t2 * (k[0] + t2 * (k[1] + t2 * (k[2] + t2 * k[3])))) / r;
+    }
+    float radial = (1.0 + r2 * (k[0] + r2 * (k[1] + r2 * k[4]))) / (1.0 + r2 * (k[5] + r2 * (k[6] + r2 * k[7])));
+    return p * radial + vec2(
+      2.0 * k[2] * p.x * p.y + k[3] * (r2 + 2.0 * p.x * p.x),
+      k[2] * (r2 + 2.0 * p.y * p.y) + 2.0 * k[3] * p.x * p.y
+    );
+  }
+
+  void main() {
+    // Image pixels run down from the top; uv runs up from the bottom.
+    vec2 pixel = vec2(vUv.x, 1.0 - vUv.y) * imageSize;
+    vec2 distorted = (pixel - principalPoint) / focalLength;
+    vec2 p = distorted;
+    if (fisheye) {
+      float thetaD = length(distorted);
+      float theta = thetaD;
+      for (int i = 0; i < 10; i++) {
+        float t2 = theta * theta;
+        float error = theta * (1.0 + t2 * (k[0] + t2 * (k[1] + t2 * (k[2] + t2 * k[3])))) - thetaD;
+        theta -= error / (1.0 + t2 * (3.0 * k[0] + t2 * (5.0 * k[1] + t2 * (7.0 * k[2] + t2 * 9.0 * k[3]))));
+      }
+      if (!(theta >= 0.0 && theta < 1.5707963)) discard;
+      if (thetaD > 1e-8) p = distorted * tan(theta) / thetaD;
+    } else {
+      for (int i = 0; i < 20; i++) {
+        float r2 = dot(p, p);
+        float inverseRadial = (1.0 + r2 * (k[5] + r2 * (k[6] + r2 * k[7]))) / (1.0 + r2 * (k[0] + r2 * (k[1] + r2 * k[4])));
+        vec2 tangential = vec2(
+          2.0 * k[2] * p.x * p.y + k[3] * (r2 + 2.0 * p.x * p.x),
+          k[2] * (r2 + 2.0 * p.y * p.y) + 2.0 * k[3] * p.x * p.y
+        );
+        p = (distorted - tangential) * inverseRadial;
+      }
+    }
+    if (length(distort(p) - distorted) > ${UNDISTORT_TOLERANCE.toExponential()}) discard;
+
+    vec2 framePixel = p * focalLength + principalPoint + frameOffset;
+    vec2 frameUv = vec2(framePixel.x, frameSize.y - framePixel.y) / frameSize;
+    if (any(lessThan(frameUv, vec2(0.0))) || any(greaterThan(frameUv, vec2(1.0)))) discard;
+    gl_FragColor = texture2D(pinholeView, frameUv);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+export interface DistortionPass {
+  /**
+   * Renders the scene through a pinhole camera projecting `frame`, then draws
+   * it distorted onto the canvas. Pixels the frame does not cover keep the clear color.
+   * @param intrinsics The calibrated intrinsics, with distortion.
+   * @param frame The frame from `undistortedFrame`.
+   */
+  render: (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera, intrinsics: CameraIntrinsics, frame: CameraIntrinsics) => void;
+  dispose: () => void;
+}
+
+/**
+ * Creates the post-process warp that shows the calibrated view through a distorting lens.
+ */
+export const createDistortionPass = (): DistortionPass => {
+  // Half floats keep the HDR values that tone mapping, applied after the warp, expects.
+  const target = new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType, samples: 4 });
+  const material = new THREE.ShaderMaterial({
+    vertexShader: warpVertexShader,
+    fragmentShader: warpFragmentShader,
+    depthTest: false,
+    depthWrite: false,
+    uniforms: {
+      pinholeView: { value: target.texture },
+      fisheye: { value: false },
+      k: { value: new Array(8).fill(0) },
+      imageSize: { value: new THREE.Vector2() },
+      focalLength: { value: new THREE.Vector2() },
+      principalPoint: { value: new THREE.Vector2() },
+      frameSize: { value: new THREE.Vector2() },
+      frameOffset: { value: new THREE.Vector2() },
+    },
+  });
+  const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
+  quad.frustumCulled = false;
+  const quadScene = new THREE.Scene();
+  quadScene.add(quad);
+  const quadCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  const drawingBufferSize = new THREE.Vector2();
+
+  return {
+    render: (renderer, scene, camera, intrinsics, frame) => {
+      // The frame gets the canvas's pixel density in image pixels.
+      renderer.getDrawingBufferSize(drawingBufferSize);
+      const width = Math.max(1, Math.round(drawingBufferSize.x * frame.image_width / intrinsics.image_width));
+      const height = Math.max(1, Math.round(drawingBufferSize.y * frame.image_height / intrinsics.image_height));
+      if (target.width !== width || target.height !== height) target.setSize(width, height);
+
+      const { uniforms } = material;
+      uniforms.fisheye.value = intrinsics.distortion?.model === 'fisheye';
+      uniforms.k.value = intrinsics.distortion ? coefficientsOf(intrinsics.distortion) : new Array(8).fill(0);
+      uniforms.imageSize.value.set(intrinsics.image_width, intrinsics.image_height);
+      uniforms.focalLength.value.set(intrinsics.fx, intrinsics.fy);
+      uniforms.principalPoint.value.set(intrinsics.cx, intrinsics.cy);
+      uniforms.frameSize.value.set(frame.image_width, frame.image_height);
+      uniforms.frameOffset.value.set(frame.cx - intrinsics.cx, frame.cy - intrinsics.cy);
+
+      const previousTarget = renderer.getRenderTarget();
+      renderer.setRenderTarget(target);
+      renderer.render(scene, camera);
+      renderer.setRenderTarget(previousTarget);
+      renderer.render(quadScene, quadCamera);
+    },
+    dispose: () => {
+      target.dispose();
+      material.dispose();
+      quad.geometry.dispose();
+    },
+  };
+};
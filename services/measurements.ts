@@ -0,0 +1,30 @@
+import * as THREE from 'three';
+import { Measurement } from '../types';
+
+/**
+ * Values and labels for viewport measurements. Lengths are in scene units,
+ * whatever those mean for the loaded assets.
+ */
+
+export const MEASUREMENT_POINT_COUNT: Record<Measurement['kind'], number> = {
+  distance: 2,
+  angle: 3,
+};
+
+const toVector = ({ x, y, z }: Measurement['points'][number]) => new THREE.Vector3(x, y, z);
+
+/**
+ * Computes what a measurement measures.
+ * @param measurement A complete measurement.
+ * @returns The distance in scene units, or the angle at the middle point in degrees.
+ */
+export const measurementValue = (measurement: Measurement): number => {
+  const [a, b, c] = measurement.points.map(toVector);
+  if (measurement.kind === 'distance') return a.distanceTo(b);
+  return THREE.MathUtils.radToDeg(a.clone().sub(b).angleTo(c.clone().sub(b)));
+};
+
+export const formatMeasurement = (measurement: Measurement): string =>
+  measurement.kind === 'distance'
+    ? measurementValue(measurement).toFixed(3)
+    : `${measurementValue(measurement).toFixed(1)}°`;
@@ -0,0 +1,19 @@
+import { ModelProvider } from './streaming';
+import { GeminiProvider } from './geminiService';
+import { HttpProvider } from './httpProvider';
+import { FixtureProvider, MockProvider } from './fixtureProvider';
+
+/**
+ * Picks a provider from the Server Endpoint field:
+ *  - `http://…` / `https://…`: POST to a local or remote HTTP backend
+ *  - `fixture:<path>`: replay a recorded conversation served at `<path>`
+ *  - `mock`: a built-in offline response
+ *  - anything else: a Gemini model name
+ */
+export const getModelProvider = (endpoint: string): ModelProvider => {
+  const trimmed = endpoint.trim();
+  if (/^https?:\/\//i.test(trimmed)) return new HttpProvider(trimmed);
+  if (trimmed.startsWith('fixture:')) return new FixtureProvider(trimmed.substring('fixture:'.length));
+  if (trimmed === 'mock') return new MockProvider();
+  return new GeminiProvider(trimmed);
+};
@@ -0,0 +1,117 @@
+import * as THREE from 'three';
+import { PointCloudDisplay } from '../types';
+
+/**
+ * Displays PLY geometry as a surface, as points, or both ways on demand.
+ *
+ * A loaded PLY becomes a group holding a `THREE.Points` and, when the file has
+ * faces, a `THREE.Mesh` over the same geometry. The display settings pick which
+ * one is visible and recolor the shared geometry.
+ */
+
+// The file's own colors, kept outside userData so clones and exports do not copy them.
+const sourceColorsByObject = new WeakMap<THREE.Object3D, THREE.BufferAttribute | null>();
+
+export const DEFAULT_POINT_DISPLAY: PointCloudDisplay = {
+  mode: 'auto',
+  pointSize: 2,
+  colorBy: 'rgb',
+};
+
+/**
+ * Builds the displayable object for parsed PLY geometry.
+ * @param geometry Geometry from PLYLoader, optionally with `color` and `intensity` attributes.
+ * @returns A group marked with `userData.isPlyDisplay`.
+ */
+export const createPlyObject = (geometry: THREE.BufferGeometry): THREE.Group => {
+  const group = new THREE.Group();
+  group.userData.isPlyDisplay = true;
+  group.userData.hasFaces = !!geometry.index;
+  const sourceColors = geometry.getAttribute('color');
+  sourceColorsByObject.set(group, sourceColors ? (sourceColors as THREE.BufferAttribute).clone() : null);
+
+  if (!geometry.hasAttribute('color')) {
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(new Float32Array(geometry.getAttribute('position').count * 3).fill(1), 3));
+  }
+
+  const points = new THREE.Points(geometry, new THREE.PointsMaterial({
+    vertexColors: true,
+    size: DEFAULT_POINT_DISPLAY.pointSize,
+    sizeAttenuation: false, // size in pixels, whatever the camera
+  }));
+  points.name = 'points';
+  group.add(points);
+
+  if (group.userData.hasFaces) {
+    geometry.computeVertexNormals();
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ vertexColors: true }));
+    mesh.name = 'mesh';
+    group.add(mesh);
+  }
+  return group;
+};
+
+// Blue (low) to red (high) through green.
+const rampColor = (t: number, target: THREE.Color) =>
+  target.setHSL((1 - THREE.MathUtils.clamp(t, 0, 1)) * 0.66, 1, 0.5);
+
+const writeColors = (geometry: THREE.BufferGeometry, colorBy: PointCloudDisplay['colorBy'], sourceColors: THREE.BufferAttribute | null) => {
+  const colors = geometry.getAttribute('color') as THREE.BufferAttribute;
+  const positions = geometry.getAttribute('position');
+  const intensity = geometry.getAttribute('intensity');
+  const color = new THREE.Color();
+
+  if (colorBy === 'height') {
+    // The scene is Y-down, so height grows towards -Y.
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < positions.count; i++) {
+      min = Math.min(min, -positions.getY(i));
+      max = Math.max(max, -positions.getY(i));
+    }
+    const range = max - min || 1;
+    for (let i = 0; i < positions.count; i++) {
+      rampColor((-positions.getY(i) - min) / range, color);
+      colors.setXYZ(i, color.r, color.g, color.b);
+    }
+  } else if (colorBy === 'intensity' && intensity) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < intensity.count; i++) {
+      min = Math.min(min, intensity.getX(i));
+      max = Math.max(max, intensity.getX(i));
+    }
+    const range = max - min || 1;
+    for (let i = 0; i < intensity.count; i++) {
+      const value = (intensity.getX(i) - min) / range;
+      colors.setXYZ(i, value, value, value);
+    }
+  } else if (sourceColors) {
+    colors.copy(sourceColors);
+  } else {
+    colors.array.fill(1);
+  }
+  colors.needsUpdate = true;
+};
+
+/**
+ * Applies display settings to an object made by `createPlyObject`. 'auto' shows
+ * the mesh when the file has faces; face-less geometry is always shown as points.
+ * @param object The PLY display group.
+ * @param display The settings to apply.
+ */
+export const applyPointDisplay = (object: THREE.Object3D, display: PointCloudDisplay) => {
+  const points = object.getObjectByName('points') as THREE.Points | undefined;
+  const mesh = object.getObjectByName('mesh') as THREE.Mesh | undefined;
+  if (!points) return;
+
+  const showPoints = display.mode === 'points' || !mesh;
+  points.visible = showPoints;
+  if (mesh) mesh.visible = !showPoints;
+  (points.material as THREE.PointsMaterial).size = display.pointSize;
+
+  if (object.userData.colorBy !== display.colorBy) {
+    writeColors(points.geometry, display.colorBy, sourceColorsByObject.get(object) ?? null);
+    object.userData.colorBy = display.colorBy;
+  }
+};
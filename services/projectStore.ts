@@ -0,0 +1,97 @@
+import { ProjectSummary, StoredProject } from '../types';
+
+/**
+ * Keeps projects in the browser's IndexedDB so they survive reloads.
+ *
+ * Each project is one record holding everything needed to rebuild the editor
+ * state, asset Blobs included (IndexedDB stores them natively). The id of the
+ * project last worked on is kept in localStorage so it can be reopened on startup.
+ */
+
+const DB_NAME = 'scenecraft';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const LAST_PROJECT_KEY = 'scenecraft.lastProjectId';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry, e.g. after the user re-enables storage.
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+/**
+ * Runs one request against the projects store.
+ * @param mode The transaction mode.
+ * @param run Creates the request from the store.
+ * @returns The request's result once its transaction has completed.
+ */
+const withStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(PROJECTS_STORE, mode);
+    const request = run(transaction.objectStore(PROJECTS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted.'));
+  });
+};
+
+const toSummary = ({ id, name, updatedAt, data }: StoredProject): ProjectSummary => ({
+  id,
+  name,
+  updatedAt,
+  assetCount: data.assets.length,
+});
+
+/**
+ * Lists the saved projects.
+ * @returns Summaries, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<StoredProject[]>('readonly', store => store.getAll());
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<StoredProject | null> =>
+  (await withStore<StoredProject | undefined>('readonly', store => store.get(id))) ?? null;
+
+export const saveProject = async (project: StoredProject): Promise<void> => {
+  await withStore('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) setLastProjectId(null);
+};
+
+/**
+ * Renames a saved project without touching its contents.
+ * @param id The project to rename.
+ * @param name The new name.
+ */
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await loadProject(id);
+  if (project) await saveProject({ ...project, name });
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+};
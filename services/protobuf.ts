@@ -0,0 +1,457 @@
+/**
+ * A small schema-driven protobuf codec.
+ *
+ * Messages are described with `MessageSchema` objects that mirror their
+ * `.proto` definitions. Varints are decoded without 32-bit bitwise operators,
+ * so lengths and 32-bit fields are exact up to 2^53 and 64-bit integer fields
+ * are returned as `bigint`.
+ */
+
+export type ScalarType =
+  | 'int32' | 'uint32' | 'sint32' | 'fixed32' | 'sfixed32'
+  | 'int64' | 'uint64' | 'sint64' | 'fixed64' | 'sfixed64'
+  | 'bool' | 'enum' | 'float' | 'double' | 'string' | 'bytes';
+
+export interface FieldSchema {
+  name: string;
+  number: number;
+  type: ScalarType | 'message';
+  repeated?: boolean;
+  // Encode repeated numeric fields packed (proto3 default). Decoding accepts both forms.
+  packed?: boolean;
+  // Required for `type: 'message'`. A function allows recursive or forward references.
+  message?: MessageSchema | (() => MessageSchema);
+}
+
+export interface MessageSchema {
+  name: string;
+  fields: FieldSchema[];
+}
+
+// Decoded messages hold numbers, bigints, booleans, strings, Uint8Arrays, nested
+// messages and arrays of those; callers narrow the fields they read.
+export type ProtoMessage = Record<string, unknown>;
+export type ProtoScalar = number | bigint | boolean | string | Uint8Array;
+
+export const isMessage = (value: unknown): value is ProtoMessage =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+
+// Typed reads of decoded fields. Each falls back when the field is missing or holds another type.
+
+export const messageField = (message: ProtoMessage | undefined, name: string): ProtoMessage | undefined => {
+  const value = message?.[name];
+  return isMessage(value) ? value : undefined;
+};
+
+export const numberField = (message: ProtoMessage | undefined, name: string, fallback: number): number => {
+  const value = message?.[name];
+  return typeof value === 'number' ? value : fallback;
+};
+
+export const stringField = (message: ProtoMessage | undefined, name: string, fallback = ''): string => {
+  const value = message?.[name];
+  return typeof value === 'string' ? value : fallback;
+};
+
+export const bytesField = (message: ProtoMessage | undefined, name: string): Uint8Array => {
+  const value = message?.[name];
+  return value instanceof Uint8Array ? value : new Uint8Array();
+};
+
+export const listField = (message: ProtoMessage | undefined, name: string): unknown[] => {
+  const value = message?.[name];
+  return Array.isArray(value) ? value : [];
+};
+
+const WIRE_VARINT = 0;
+const WIRE_64BIT = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_32BIT = 5;
+
+const TWO_POW_32 = 4294967296;
+
+const wireTypeFor = (type: FieldSchema['type']): number => {
+  switch (type) {
+    case 'double': case 'fixed64': case 'sfixed64': return WIRE_64BIT;
+    case 'float': case 'fixed32': case 'sfixed32': return WIRE_32BIT;
+    case 'string': case 'bytes': case 'message': return WIRE_LENGTH_DELIMITED;
+    default: return WIRE_VARINT;
+  }
+};
+
+const resolveMessage = (field: FieldSchema): MessageSchema => {
+  if (!field.message) throw new Error(`Field '${field.name}' is missing its message schema.`);
+  return typeof field.message === 'function' ? field.message() : field.message;
+};
+
+/**
+ * Reads protobuf wire data field by field.
+ */
+export class ProtoReader {
+    private i = 0;
+    private bytes: Uint8Array;
+    private view: DataView;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    public isAtEnd(): boolean {
+        return this.i >= this.bytes.length;
+    }
+
+    public readTag(): { fieldNumber: number, wireType: number } {
+        const tag = this.readVarint();
+        return { fieldNumber: Math.floor(tag / 8), wireType: tag % 8 };
+    }
+
+    /**
+     * Reads an unsigned varint as a number. Exact up to 2^53; use
+     * `readVarint64` for 64-bit fields.
+     */
+    public readVarint(): number {
+        let result = 0;
+        let multiplier = 1;
+        let byte;
+        do {
+            if (this.i >= this.bytes.length) throw new Error("Buffer underflow while reading varint");
+            byte = this.bytes[this.i++];
+            result += (byte & 0x7f) * multiplier;
+            multiplier *= 128;
+        } while (byte & 0x80);
+        return result;
+    }
+
+    /** Reads an unsigned varint as a 64-bit `bigint`. */
+    public readVarint64(): bigint {
+        let result = 0n;
+        let shift = 0n;
+        let byte;
+        do {
+            if (this.i >= this.bytes.length) throw new Error("Buffer underflow while reading varint");
+            byte = this.bytes[this.i++];
+            result |= BigInt(byte & 0x7f) << shift;
+            shift += 7n;
+        } while (byte & 0x80);
+        return BigInt.asUintN(64, result);
+    }
+
+    public readBytes(): Uint8Array {
+        const len = this.readVarint();
+        if (this.i + len > this.bytes.length) throw new Error("Buffer underflow while reading bytes");
+        const subArray = this.bytes.subarray(this.i, this.i + len);
+        this.i += len;
+        return subArray;
+    }
+
+    public readFloat(): number {
+        this.ensure(4);
+        const value = this.view.getFloat32(this.i, true); // true for little-endian
+        this.i += 4;
+        return value;
+    }
+
+    public readDouble(): number {
+        this.ensure(8);
+        const value = this.view.getFloat64(this.i, true);
+        this.i += 8;
+        return value;
+    }
+
+    public readFixed32(): number {
+        this.ensure(4);
+        const value = this.view.getUint32(this.i, true);
+        this.i += 4;
+        return value;
+    }
+
+    public readFixed64(): bigint {
+        this.ensure(8);
+        const value = this.view.getBigUint64(this.i, true);
+        this.i += 8;
+        return value;
+    }
+
+    public skipField(wireType: number) {
+        switch (wireType) {
+            case WIRE_VARINT: this.readVarint64(); break;
+            case WIRE_64BIT: this.ensure(8); this.i += 8; break;
+            case WIRE_LENGTH_DELIMITED: this.readBytes(); break;
+            case WIRE_32BIT: this.ensure(4); this.i += 4; break;
+            default: throw new Error(`Unknown wire type: ${wireType}`);
+        }
+    }
+
+    private ensure(length: number) {
+        if (this.i + length > this.bytes.length) throw new Error("Buffer underflow while reading fixed-width field");
+    }
+}
+
+/**
+ * Builds protobuf wire data. Chunks are collected and joined in `finish`.
+ */
+export class ProtoWriter {
+    private chunks: Uint8Array[] = [];
+
+    public writeTag(fieldNumber: number, wireType: number) {
+        this.writeVarint(fieldNumber * 8 + wireType);
+    }
+
+    public writeVarint(value: number | bigint) {
+        if (typeof value === 'bigint' || value < 0 || value > Number.MAX_SAFE_INTEGER) {
+            this.writeVarint64(BigInt(value));
+            return;
+        }
+        const out: number[] = [];
+        let v = value;
+        while (v >= 0x80) {
+            out.push((v % 128) | 0x80);
+            v = Math.floor(v / 128);
+        }
+        out.push(v);
+        this.chunks.push(Uint8Array.from(out));
+    }
+
+    /** Writes a varint in two's complement (negative values take 10 bytes). */
+    public writeVarint64(value: bigint) {
+        let v = BigInt.asUintN(64, value);
+        const out: number[] = [];
+        while (v >= 0x80n) {
+            out.push(Number(v & 0x7fn) | 0x80);
+            v >>= 7n;
+        }
+        out.push(Number(v));
+        this.chunks.push(Uint8Array.from(out));
+    }
+
+    public writeBytes(bytes: Uint8Array) {
+        this.writeVarint(bytes.length);
+        this.chunks.push(bytes);
+    }
+
+    public writeFloat(value: number) {
+        const bytes = new Uint8Array(4);
+        new DataView(bytes.buffer).setFloat32(0, value, true);
+        this.chunks.push(bytes);
+    }
+
+    public writeDouble(value: number) {
+        const bytes = new Uint8Array(8);
+        new DataView(bytes.buffer).setFloat64(0, value, true);
+        this.chunks.push(bytes);
+    }
+
+    public writeFixed32(value: number) {
+        const bytes = new Uint8Array(4);
+        new DataView(bytes.buffer).setUint32(0, value >>> 0, true);
+        this.chunks.push(bytes);
+    }
+
+    public writeFixed64(value: bigint) {
+        const bytes = new Uint8Array(8);
+        new DataView(bytes.buffer).setBigUint64(0, BigInt.asUintN(64, value), true);
+        this.chunks.push(bytes);
+    }
+
+    public finish(): Uint8Array {
+        const length = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+        const result = new Uint8Array(length);
+        let offset = 0;
+        this.chunks.forEach(chunk => {
+            result.set(chunk, offset);
+            offset += chunk.length;
+        });
+        return result;
+    }
+}
+
+const readScalar = (reader: ProtoReader, type: ScalarType): ProtoScalar => {
+  switch (type) {
+    case 'int32': return Number(BigInt.asIntN(32, reader.readVarint64()));
+    case 'uint32': return Number(BigInt.asUintN(32, reader.readVarint64()));
+    case 'sint32': case 'sint64': {
+      const raw = reader.readVarint64();
+      const decoded = (raw >> 1n) ^ -(raw & 1n);
+      return type === 'sint32' ? Number(decoded) : decoded;
+    }
+    case 'int64': return BigInt.asIntN(64, reader.readVarint64());
+    case 'uint64': return reader.readVarint64();
+    case 'bool': return reader.readVarint64() !== 0n;
+    case 'enum': return Number(BigInt.asIntN(32, reader.readVarint64()));
+    case 'fixed32': return reader.readFixed32();
+    case 'sfixed32': return reader.readFixed32() | 0;
+    case 'fixed64': return reader.readFixed64();
+    case 'sfixed64': return BigInt.asIntN(64, reader.readFixed64());
+    case 'float': return reader.readFloat();
+    case 'double': return reader.readDouble();
+    case 'string': return new TextDecoder().decode(reader.readBytes());
+    case 'bytes': return reader.readBytes();
+  }
+};
+
+// 64-bit values may be given as bigints, numbers or decimal strings.
+const toBigInt = (value: unknown): bigint =>
+  typeof value === 'bigint' || typeof value === 'string' || typeof value === 'boolean'
+    ? BigInt(value)
+    : BigInt(Math.trunc(Number(value)));
+
+const writeScalar = (writer: ProtoWriter, type: ScalarType, value: unknown) => {
+  switch (type) {
+    case 'int32': case 'enum': writer.writeVarint64(BigInt(Math.trunc(Number(value)))); break;
+    case 'uint32': writer.writeVarint(Number(value) >>> 0); break;
+    case 'int64': case 'uint64': writer.writeVarint64(toBigInt(value)); break;
+    case 'sint32': case 'sint64': {
+      const v = toBigInt(value);
+      writer.writeVarint64(v >= 0n ? v << 1n : ((-v) << 1n) - 1n);
+      break;
+    }
+    case 'bool': writer.writeVarint(value ? 1 : 0); break;
+    case 'fixed32': case 'sfixed32': writer.writeFixed32(Number(value)); break;
+    case 'fixed64': case 'sfixed64': writer.writeFixed64(toBigInt(value)); break;
+    case 'float': writer.writeFloat(Number(value)); break;
+    case 'double': writer.writeDouble(Number(value)); break;
+    case 'string': writer.writeBytes(new TextEncoder().encode(String(value))); break;
+    case 'bytes':
+      if (!(value instanceof Uint8Array)) throw new Error('Expected a Uint8Array for a bytes field.');
+      writer.writeBytes(value);
+      break;
+  }
+};
+
+const isPackable = (type: FieldSchema['type']) => wireTypeFor(type) !== WIRE_LENGTH_DELIMITED;
+
+/**
+ * Merges a later occurrence of a singular message into an earlier one, per the
+ * protobuf spec: set scalars replace, repeated fields concatenate and nested
+ * messages merge recursively.
+ */
+const mergeMessage = (schema: MessageSchema, into: ProtoMessage, from: ProtoMessage): ProtoMessage => {
+  const merged: ProtoMessage = { ...into };
+  schema.fields.forEach(field => {
+    const value = from[field.name];
+    const existing = merged[field.name];
+    if (value === undefined) return;
+    if (field.repeated && Array.isArray(existing) && Array.isArray(value)) {
+      merged[field.name] = [...existing, ...value];
+    } else if (field.type === 'message' && isMessage(existing) && isMessage(value)) {
+      merged[field.name] = mergeMessage(resolveMessage(field), existing, value);
+    } else {
+      merged[field.name] = value;
+    }
+  });
+  return merged;
+};
+
+/**
+ * Decodes a message. Fields absent from the wire data are omitted from the
+ * result (repeated fields default to an empty array); unknown fields and
+ * fields with an unexpected wire type are skipped.
+ * @param schema The message description.
+ * @param bytes The encoded message.
+ * @returns A plain object keyed by field name.
+ */
+export const decodeMessage = (schema: MessageSchema, bytes: Uint8Array): ProtoMessage => {
+  const byNumber = new Map(schema.fields.map(field => [field.number, field]));
+  const result: ProtoMessage = {};
+  const lists = new Map<string, unknown[]>();
+  schema.fields.filter(field => field.repeated).forEach(field => {
+    const list: unknown[] = [];
+    lists.set(field.name, list);
+    result[field.name] = list;
+  });
+
+  const reader = new ProtoReader(bytes);
+  while (!reader.isAtEnd()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    const field = byNumber.get(fieldNumber);
+    if (!field) {
+      reader.skipField(wireType);
+      continue;
+    }
+
+    const expectedWireType = wireTypeFor(field.type);
+    if (field.repeated && isPackable(field.type) && wireType === WIRE_LENGTH_DELIMITED) {
+      // Packed repeated scalars.
+      const packed = new ProtoReader(reader.readBytes());
+      while (!packed.isAtEnd()) {
+        lists.get(field.name)!.push(readScalar(packed, field.type as ScalarType));
+      }
+      continue;
+    }
+    if (wireType !== expectedWireType) {
+      reader.skipField(wireType);
+      continue;
+    }
+
+    const value = field.type === 'message'
+      ? decodeMessage(resolveMessage(field), reader.readBytes())
+      : readScalar(reader, field.type);
+    const existing = result[field.name];
+    if (field.repeated) {
+      lists.get(field.name)!.push(value);
+    } else if (field.type === 'message' && isMessage(existing) && isMessage(value)) {
+      // Repeated occurrences of a singular message are merged, per the protobuf spec.
+      result[field.name] = mergeMessage(resolveMessage(field), existing, value);
+    } else {
+      result[field.name] = value;
+    }
+  }
+  return result;
+};
+
+/**
+ * Encodes a message. `undefined` and `null` fields are omitted.
+ * @param schema The message description.
+ * @param message A plain object keyed by field name.
+ * @returns The encoded message.
+ */
+export const encodeMessage = (schema: MessageSchema, message: ProtoMessage): Uint8Array => {
+  const writer = new ProtoWriter();
+
+  schema.fields.forEach(field => {
+    const value = message[field.name];
+    if (value === undefined || value === null) return;
+    const values: unknown[] = field.repeated && Array.isArray(value) ? value : [value];
+
+    if (field.repeated && field.packed !== false && isPackable(field.type)) {
+      if (values.length === 0) return;
+      const packed = new ProtoWriter();
+      values.forEach(v => writeScalar(packed, field.type as ScalarType, v));
+      writer.writeTag(field.number, WIRE_LENGTH_DELIMITED);
+      writer.writeBytes(packed.finish());
+      return;
+    }
+
+    values.forEach(v => {
+      writer.writeTag(field.number, wireTypeFor(field.type));
+      if (field.type === 'message') {
+        if (!isMessage(v)) throw new Error(`Field '${field.name}' expects a message object.`);
+        writer.writeBytes(encodeMessage(resolveMessage(field), v));
+      } else {
+        writeScalar(writer, field.type, v);
+      }
+    });
+  });
+
+  return writer.finish();
+};
+
+// Base64 helpers for protobuf payloads carried in inlineData parts.
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
@@ -0,0 +1,183 @@
+import * as THREE from 'three';
+import { EXRExporter } from 'three/addons/exporters/EXRExporter.js';
+import { CameraExtrinsics, CameraIntrinsics, CameraRender, ThreeDAsset } from '../types';
+
+/**
+ * Turns an offscreen render of the calibrated camera into dataset files:
+ *
+ * - `rgb.png`: the view as the viewport draws it, transparent where empty.
+ * - `depth.png`: 16-bit depth in millimeters (scene units taken as meters), 0 where empty.
+ * - `depth.exr`: 32-bit float depth in scene units, in every color channel.
+ * - `normals.png`: OpenCV camera-frame normals mapped from [-1, 1] to [0, 255].
+ * - `instances.png`: 16-bit instance ids, 0 for background.
+ * - `masks/*.png`: one black-and-white mask per instance.
+ * - `render.json`: camera parameters and the instance id to asset table.
+ */
+
+// depth.png stores millimeters.
+const DEPTH_PNG_SCALE = 1000;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/**
+ * Encodes 16-bit grayscale values as a PNG, which canvases cannot produce.
+ * @param values One value per pixel, top row first.
+ * @param width Image width.
+ * @param height Image height.
+ */
+export const encodeGray16Png = async (values: Uint16Array, width: number, height: number): Promise<Blob> => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 16; // bit depth
+  header[9] = 0; // grayscale
+
+  // Each row starts with filter type 0; samples are big-endian.
+  const raw = new Uint8Array(height * (1 + width * 2));
+  const rawView = new DataView(raw.buffer);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (1 + width * 2);
+    for (let x = 0; x < width; x++) rawView.setUint16(rowStart + 1 + x * 2, values[y * width + x]);
+  }
+  // CompressionStream's 'deflate' is the zlib format PNG expects.
+  const compressed = new Uint8Array(await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+  const signature = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  return new Blob([signature, pngChunk('IHDR', header), pngChunk('IDAT', compressed), pngChunk('IEND', new Uint8Array(0))], { type: 'image/png' });
+};
+
+/**
+ * Encodes 8-bit RGBA pixels as a PNG.
+ * @param rgba Four bytes per pixel, top row first.
+ * @param width Image width.
+ * @param height Image height.
+ */
+export const encodeRgbaPng = (rgba: Uint8ClampedArray, width: number, height: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.putImageData(new ImageData(rgba, width, height), 0, 0);
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG.'))), 'image/png');
+  });
+
+/**
+ * Encodes depth as a 32-bit float EXR.
+ * @param depth One value per pixel, top row first.
+ * @param width Image width.
+ * @param height Image height.
+ */
+export const encodeDepthExr = async (depth: Float32Array, width: number, height: number): Promise<Blob> => {
+  // The exporter expects WebGL row order, bottom row first.
+  const data = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = depth[y * width + x];
+      const i = ((height - 1 - y) * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+      data[i + 3] = 1;
+    }
+  }
+  const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat, THREE.FloatType);
+  const exr: Uint8Array = await new EXRExporter().parse(texture, { type: THREE.FloatType });
+  texture.dispose();
+  return new Blob([exr], { type: 'image/x-exr' });
+};
+
+const maskFileName = (id: number, label: string) =>
+  `masks/${String(id).padStart(3, '0')}_${label.replace(/[^a-z0-9_-]+/gi, '_')}.png`;
+
+/**
+ * Encodes every pass of a render into the files listed above.
+ * @param render The render from the viewer.
+ * @param assets The scene's assets, for instance labels and classes.
+ * @param intrinsics The intrinsics the render used.
+ * @param extrinsics The camera pose the render used.
+ * @returns File contents by path.
+ */
+export const buildRenderFiles = async (
+  render: CameraRender,
+  assets: ThreeDAsset[],
+  intrinsics: CameraIntrinsics,
+  extrinsics: CameraExtrinsics
+): Promise<Record<string, Blob | string>> => {
+  const { width, height } = render;
+  const pixelCount = width * height;
+  const files: Record<string, Blob | string> = {};
+
+  files['rgb.png'] = await encodeRgbaPng(render.rgb, width, height);
+
+  const depthMillimeters = new Uint16Array(pixelCount);
+  render.depth.forEach((value, i) => { depthMillimeters[i] = Math.min(65535, Math.round(value * DEPTH_PNG_SCALE)); });
+  files['depth.png'] = await encodeGray16Png(depthMillimeters, width, height);
+  files['depth.exr'] = await encodeDepthExr(render.depth, width, height);
+
+  const normals = new Uint8ClampedArray(pixelCount * 4);
+  for (let i = 0; i < pixelCount; i++) {
+    const x = render.normals[i * 3];
+    const y = render.normals[i * 3 + 1];
+    const z = render.normals[i * 3 + 2];
+    if (x === 0 && y === 0 && z === 0) continue;
+    normals[i * 4] = (x + 1) * 127.5;
+    normals[i * 4 + 1] = (y + 1) * 127.5;
+    normals[i * 4 + 2] = (z + 1) * 127.5;
+    normals[i * 4 + 3] = 255;
+  }
+  files['normals.png'] = await encodeRgbaPng(normals, width, height);
+
+  files['instances.png'] = await encodeGray16Png(render.instances, width, height);
+  const instances = [];
+  for (const [index, assetId] of render.instanceAssetIds.entries()) {
+    const id = index + 1;
+    const asset = assets.find(candidate => candidate.id === assetId);
+    const label = asset?.label ?? assetId;
+    // Opaque black, with the instance's pixels white.
+    const mask = new Uint8ClampedArray(pixelCount * 4);
+    let area = 0;
+    for (let i = 0; i < pixelCount; i++) {
+      mask[i * 4 + 3] = 255;
+      if (render.instances[i] !== id) continue;
+      mask[i * 4] = mask[i * 4 + 1] = mask[i * 4 + 2] = 255;
+      area++;
+    }
+    const maskPath = maskFileName(id, label);
+    files[maskPath] = await encodeRgbaPng(mask, width, height);
+    instances.push({ id, assetId, label, semanticClass: asset?.semanticClass ?? null, pixelCount: area, mask: maskPath });
+  }
+
+  files['render.json'] = JSON.stringify({
+    width,
+    height,
+    intrinsics,
+    extrinsics,
+    depth: { png: 'millimeters, uint16', exr: 'scene units, float32', zero: 'no surface' },
+    normals: 'OpenCV camera frame (x right, y down, z forward), (n + 1) / 2 * 255',
+    instances,
+  }, null, 2);
+  return files;
+};
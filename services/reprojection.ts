@@ -0,0 +1,128 @@
+import { CameraIntrinsics } from '../types';
+
+/**
+ * Pixel work for the reprojection overlay: asset silhouettes rendered through
+ * the calibrated camera are compared against, and drawn over, the source image.
+ *
+ * Masks are one byte per pixel (1 = covered), row-major from the image's top-left
+ * corner, at the resolution returned by `overlayResolution`.
+ */
+
+// Longest side of the overlay and scoring masks; scores are ratios, so a smaller copy of the image is enough.
+const MAX_OVERLAY_SIZE = 1024;
+
+/**
+ * Picks the mask resolution for an image.
+ * @param intrinsics The calibrated camera's intrinsics.
+ * @returns The image size scaled down to at most `MAX_OVERLAY_SIZE` on its longest side.
+ */
+export const overlayResolution = ({ image_width, image_height }: CameraIntrinsics) => {
+  const scale = Math.min(1, MAX_OVERLAY_SIZE / Math.max(image_width, image_height));
+  return {
+    width: Math.max(1, Math.round(image_width * scale)),
+    height: Math.max(1, Math.round(image_height * scale)),
+  };
+};
+
+/**
+ * Keeps only the outline of a mask.
+ * @returns A mask of the covered pixels that touch an uncovered pixel or the image border.
+ */
+export const maskEdges = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const edges = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!mask[i]) continue;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1
+        || !mask[i - 1] || !mask[i + 1] || !mask[i - width] || !mask[i + width]) {
+        edges[i] = 1;
+      }
+    }
+  }
+  return edges;
+};
+
+/**
+ * Reads a segmentation mask image into per-pixel labels. Any non-black, opaque
+ * color is a segment, so both binary masks and instance-colored masks work.
+ * @param dataUrl The mask image.
+ * @param width Label width; the image is stretched to fit, like the source image it belongs to.
+ * @param height Label height.
+ * @returns Packed RGB labels, with 0 for background.
+ */
+export const loadSegmentationLabels = (dataUrl: string, width: number, height: number): Promise<Uint32Array> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d')!;
+      // Interpolating would invent colors between segments.
+      context.imageSmoothingEnabled = false;
+      context.drawImage(image, 0, 0, width, height);
+      const { data } = context.getImageData(0, 0, width, height);
+      const labels = new Uint32Array(width * height);
+      for (let i = 0; i < labels.length; i++) {
+        if (data[i * 4 + 3] < 128) continue;
+        labels[i] = (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2];
+      }
+      resolve(labels);
+    };
+    image.onerror = () => reject(new Error('Could not decode the segmentation mask.'));
+    image.src = dataUrl;
+  });
+
+/**
+ * Scores how well a rendered silhouette matches the segmentation: the
+ * intersection-over-union with the segment it overlaps most.
+ * @param mask The asset's silhouette.
+ * @param labels Segmentation labels at the same resolution.
+ * @returns A score from 0 (no overlap) to 1 (identical), or null if the asset is off-image.
+ */
+export const alignmentScore = (mask: Uint8Array, labels: Uint32Array): number | null => {
+  const overlaps = new Map<number, number>();
+  let maskArea = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    maskArea++;
+    if (labels[i]) overlaps.set(labels[i], (overlaps.get(labels[i]) ?? 0) + 1);
+  }
+  if (maskArea === 0) return null;
+
+  let bestLabel = 0;
+  let bestOverlap = 0;
+  overlaps.forEach((overlap, label) => {
+    if (overlap > bestOverlap) {
+      bestLabel = label;
+      bestOverlap = overlap;
+    }
+  });
+  if (bestOverlap === 0) return 0;
+
+  let segmentArea = 0;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] === bestLabel) segmentArea++;
+  }
+  return bestOverlap / (maskArea + segmentArea - bestOverlap);
+};
+
+/**
+ * Paints masks into an image, later masks on top.
+ * @param target The image to paint into; its size must match the masks.
+ * @param layers Each mask with its color as [r, g, b].
+ */
+export const paintMasks = (target: ImageData, layers: { mask: Uint8Array; color: [number, number, number] }[]) => {
+  const { data } = target;
+  data.fill(0);
+  layers.forEach(({ mask, color: [r, g, b] }) => {
+    for (let i = 0; i < mask.length; i++) {
+      if (!mask[i]) continue;
+      data[i * 4] = r;
+      data[i * 4 + 1] = g;
+      data[i * 4 + 2] = b;
+      data[i * 4 + 3] = 255;
+    }
+  });
+};
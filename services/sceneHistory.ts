@@ -0,0 +1,109 @@
+/**
+ * A command-based undo/redo stack for scene edits.
+ *
+ * Edits are applied by the caller first and then recorded here as a command
+ * that knows how to revert (`undo`) and re-apply (`redo`) itself. Consecutive
+ * commands sharing a `mergeKey` within a short window are coalesced into a
+ * single entry, so typing "1.25" into a transform field undoes in one step.
+ */
+
+export interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  // Commands with the same key recorded back-to-back are merged into one entry.
+  mergeKey?: string;
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+const MERGE_WINDOW_MS = 1000;
+const MAX_ENTRIES = 200;
+
+export class SceneHistory {
+  private undoStack: HistoryCommand[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private lastRecordedAt = 0;
+  private listeners = new Set<(state: HistoryState) => void>();
+
+  /**
+   * Records an edit that has already been applied.
+   * @param command The command describing how to revert and re-apply the edit.
+   */
+  public record(command: HistoryCommand) {
+    const now = Date.now();
+    const previous = this.undoStack[this.undoStack.length - 1];
+
+    if (
+      previous && command.mergeKey && previous.mergeKey === command.mergeKey &&
+      this.redoStack.length === 0 && now - this.lastRecordedAt < MERGE_WINDOW_MS
+    ) {
+      // Keep the original undo, take the latest redo.
+      this.undoStack[this.undoStack.length - 1] = { ...previous, redo: command.redo };
+    } else {
+      this.undoStack.push(command);
+      if (this.undoStack.length > MAX_ENTRIES) this.undoStack.shift();
+    }
+
+    this.lastRecordedAt = now;
+    this.redoStack = [];
+    this.notify();
+  }
+
+  public undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) return false;
+    command.undo();
+    this.redoStack.push(command);
+    this.lastRecordedAt = 0;
+    this.notify();
+    return true;
+  }
+
+  public redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) return false;
+    command.redo();
+    this.undoStack.push(command);
+    this.lastRecordedAt = 0;
+    this.notify();
+    return true;
+  }
+
+  public clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.lastRecordedAt = 0;
+    this.notify();
+  }
+
+  public getState(): HistoryState {
+    const nextUndo = this.undoStack[this.undoStack.length - 1];
+    const nextRedo = this.redoStack[this.redoStack.length - 1];
+    return {
+      canUndo: !!nextUndo,
+      canRedo: !!nextRedo,
+      undoLabel: nextUndo?.label ?? null,
+      redoLabel: nextRedo?.label ?? null,
+    };
+  }
+
+  /**
+   * Subscribes to stack changes.
+   * @returns A function that removes the listener.
+   */
+  public subscribe(listener: (state: HistoryState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
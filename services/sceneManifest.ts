@@ -0,0 +1,321 @@
+import { AssetTransform, CameraExtrinsics, CameraIntrinsics, Measurement, PointCloudDisplay, ThreeDAsset } from '../types';
+import { ASSET_FORMATS, getFormatByExtension } from './formatRegistry';
+import { IDENTITY_EXTRINSICS } from './scenecraftProto';
+import { MEASUREMENT_POINT_COUNT } from './measurements';
+
+/**
+ * The scene.json manifest inside a saved scene zip.
+ *
+ * Version 1 is the original unversioned format: assets with a file name, label,
+ * transform and optional hierarchy, intrinsics, and (later) cameras. Version 2
+ * adds an explicit version, metadata, per-asset visibility, source and file
+ * type, and the source image. Version 3 adds viewport measurements. Older
+ * manifests are migrated to the current version before validation, so every
+ * load sees the same shape.
+ */
+
+export const SCENE_MANIFEST_VERSION = 3;
+
+export interface ManifestAsset {
+  id: string;
+  label: string;
+  fileType: ThreeDAsset['fileType'];
+  fileName?: string; // absent for groups
+  visible: boolean;
+  source: ThreeDAsset['source'];
+  transform: AssetTransform; // scene space, positioning the bounding-box center
+  parentId?: string;
+  semanticClass?: string;
+  resources?: Record<string, string>; // referenced path -> file in the zip
+  pointDisplay?: PointCloudDisplay;
+}
+
+export interface ManifestCamera {
+  id: string;
+  name: string;
+  intrinsics: CameraIntrinsics;
+  extrinsics: CameraExtrinsics;
+  imageFileName?: string;
+}
+
+export interface SceneManifest {
+  version: typeof SCENE_MANIFEST_VERSION;
+  metadata: {
+    name?: string;
+    createdAt?: string; // ISO 8601
+    generator?: string;
+  };
+  intrinsics: CameraIntrinsics;
+  sourceImage: { fileName: string; visible: boolean; maskFileName?: string } | null;
+  assets: ManifestAsset[];
+  cameras: ManifestCamera[];
+  activeCameraId: string | null;
+  measurements: Measurement[];
+}
+
+export class ManifestValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`scene.json is invalid:\n${issues.map(issue => `• ${issue}`).join('\n')}`);
+    this.name = 'ManifestValidationError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const ASSET_SOURCES: ThreeDAsset['source'][] = ['model', 'upload', 'editor'];
+const FILE_TYPES: ThreeDAsset['fileType'][] = [...ASSET_FORMATS.map(format => format.fileType), 'group'];
+
+/**
+ * Upgrades an unversioned (version 1) manifest to version 2. Values version 1
+ * never stored get the defaults its loader used to apply.
+ * @param raw The parsed version 1 manifest.
+ * @param fallbackIntrinsics Intrinsics for manifests saved without them.
+ */
+const migrateFromV1 = (raw: Json, fallbackIntrinsics: CameraIntrinsics): Json => {
+  const assets = raw.assets;
+  return {
+    ...raw,
+    version: 2,
+    metadata: {},
+    intrinsics: raw.intrinsics ?? fallbackIntrinsics,
+    sourceImage: null,
+    assets: Array.isArray(assets)
+      ? assets.map(asset => {
+          if (!isObject(asset)) return asset;
+          const isGroup = asset.fileType === 'group';
+          const extension = typeof asset.fileName === 'string' ? asset.fileName.split('.').pop() ?? '' : '';
+          return {
+            ...asset,
+            id: asset.id ?? crypto.randomUUID(),
+            // Version 1 loaders picked the format from the file extension.
+            fileType: isGroup ? 'group' : getFormatByExtension(extension)?.fileType ?? extension,
+            visible: true,
+            source: isGroup ? 'editor' : 'upload',
+          };
+        })
+      : assets,
+    cameras: Array.isArray(raw.cameras)
+      ? raw.cameras.map(camera => isObject(camera) ? {
+          ...camera,
+          id: camera.id ?? crypto.randomUUID(),
+          name: camera.name ?? 'Camera',
+          intrinsics: camera.intrinsics ?? raw.intrinsics ?? fallbackIntrinsics,
+          extrinsics: camera.extrinsics ?? IDENTITY_EXTRINSICS,
+        } : camera)
+      : raw.cameras ?? [],
+    activeCameraId: raw.activeCameraId ?? null,
+  };
+};
+
+// Version 3 only added measurements.
+const migrateFromV2 = (raw: Json): Json => ({ ...raw, version: 3, measurements: [] });
+
+// Each validator appends "path: problem" entries to `issues`.
+
+const checkVector = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object with x, y and z`);
+    return;
+  }
+  (['x', 'y', 'z'] as const).forEach(axis => {
+    if (!isFiniteNumber(value[axis])) issues.push(`${path}.${axis}: expected a number`);
+  });
+};
+
+const checkTransform = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected a transform object`);
+    return;
+  }
+  checkVector(value.position, `${path}.position`, issues);
+  checkVector(value.rotation, `${path}.rotation`, issues);
+  checkVector(value.scale, `${path}.scale`, issues);
+};
+
+const checkIntrinsics = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object with image_width, image_height, cx, cy, fx and fy`);
+    return;
+  }
+  (['image_width', 'image_height'] as const).forEach(field => {
+    const size = value[field];
+    if (!isFiniteNumber(size) || !Number.isInteger(size) || size <= 0) {
+      issues.push(`${path}.${field}: expected a positive integer`);
+    }
+  });
+  (['fx', 'fy'] as const).forEach(field => {
+    if (!isFiniteNumber(value[field]) || (value[field] as number) <= 0) issues.push(`${path}.${field}: expected a positive number`);
+  });
+  (['cx', 'cy'] as const).forEach(field => {
+    if (!isFiniteNumber(value[field])) issues.push(`${path}.${field}: expected a number`);
+  });
+  const distortion = value.distortion;
+  if (distortion !== undefined && (
+    !isObject(distortion)
+    || (distortion.model !== 'brown-conrady' && distortion.model !== 'fisheye')
+    || !Array.isArray(distortion.coefficients)
+    || !distortion.coefficients.every(isFiniteNumber)
+  )) {
+    issues.push(`${path}.distortion: expected a "brown-conrady" or "fisheye" model with a list of coefficients`);
+  }
+};
+
+const checkExtrinsics = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object with rotation and translation`);
+    return;
+  }
+  if (!Array.isArray(value.rotation) || value.rotation.length !== 9 || !value.rotation.every(isFiniteNumber)) {
+    issues.push(`${path}.rotation: expected 9 numbers (a row-major 3x3 matrix)`);
+  }
+  checkVector(value.translation, `${path}.translation`, issues);
+};
+
+const checkOptionalString = (value: unknown, path: string, issues: string[]) => {
+  if (value !== undefined && typeof value !== 'string') issues.push(`${path}: expected a string`);
+};
+
+const checkPointDisplay = (value: unknown, path: string, issues: string[]) => {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  if (!['auto', 'mesh', 'points'].includes(value.mode as string)) issues.push(`${path}.mode: expected "auto", "mesh" or "points"`);
+  if (!isFiniteNumber(value.pointSize) || value.pointSize <= 0) issues.push(`${path}.pointSize: expected a positive number`);
+  if (!['rgb', 'height', 'intensity'].includes(value.colorBy as string)) issues.push(`${path}.colorBy: expected "rgb", "height" or "intensity"`);
+};
+
+const checkAsset = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an asset object`);
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) issues.push(`${path}.id: expected a non-empty string`);
+  if (typeof value.label !== 'string') issues.push(`${path}.label: expected a string`);
+  if (!FILE_TYPES.includes(value.fileType as ThreeDAsset['fileType'])) {
+    issues.push(`${path}.fileType: expected one of ${FILE_TYPES.join(', ')} (got ${JSON.stringify(value.fileType)})`);
+  }
+  if (value.fileType !== 'group' && (typeof value.fileName !== 'string' || !value.fileName)) {
+    issues.push(`${path}.fileName: expected the name of a file in the zip`);
+  }
+  if (typeof value.visible !== 'boolean') issues.push(`${path}.visible: expected true or false`);
+  if (!ASSET_SOURCES.includes(value.source as ThreeDAsset['source'])) issues.push(`${path}.source: expected one of ${ASSET_SOURCES.join(', ')}`);
+  checkTransform(value.transform, `${path}.transform`, issues);
+  checkOptionalString(value.parentId, `${path}.parentId`, issues);
+  checkOptionalString(value.semanticClass, `${path}.semanticClass`, issues);
+  if (value.resources !== undefined && (!isObject(value.resources) || !Object.values(value.resources).every(file => typeof file === 'string'))) {
+    issues.push(`${path}.resources: expected a map from referenced paths to file names`);
+  }
+  checkPointDisplay(value.pointDisplay, `${path}.pointDisplay`, issues);
+};
+
+const checkCamera = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected a camera object`);
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) issues.push(`${path}.id: expected a non-empty string`);
+  if (typeof value.name !== 'string') issues.push(`${path}.name: expected a string`);
+  checkIntrinsics(value.intrinsics, `${path}.intrinsics`, issues);
+  checkExtrinsics(value.extrinsics, `${path}.extrinsics`, issues);
+  checkOptionalString(value.imageFileName, `${path}.imageFileName`, issues);
+};
+
+const checkMeasurement = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected a measurement object`);
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) issues.push(`${path}.id: expected a non-empty string`);
+  const kind = value.kind as Measurement['kind'];
+  if (kind !== 'distance' && kind !== 'angle') {
+    issues.push(`${path}.kind: expected "distance" or "angle"`);
+    return;
+  }
+  if (!Array.isArray(value.points) || value.points.length !== MEASUREMENT_POINT_COUNT[kind]) {
+    issues.push(`${path}.points: expected ${MEASUREMENT_POINT_COUNT[kind]} points for a ${kind}`);
+    return;
+  }
+  value.points.forEach((point, index) => checkVector(point, `${path}.points[${index}]`, issues));
+};
+
+const checkManifest = (manifest: Json, issues: string[]) => {
+  if (!isObject(manifest.metadata)) {
+    issues.push('metadata: expected an object');
+  } else {
+    checkOptionalString(manifest.metadata.name, 'metadata.name', issues);
+    checkOptionalString(manifest.metadata.createdAt, 'metadata.createdAt', issues);
+    checkOptionalString(manifest.metadata.generator, 'metadata.generator', issues);
+  }
+  checkIntrinsics(manifest.intrinsics, 'intrinsics', issues);
+
+  const sourceImage = manifest.sourceImage;
+  if (sourceImage !== null && (!isObject(sourceImage) || typeof sourceImage.fileName !== 'string' || typeof sourceImage.visible !== 'boolean')) {
+    issues.push('sourceImage: expected null or an object with fileName and visible');
+  } else if (isObject(sourceImage)) {
+    checkOptionalString(sourceImage.maskFileName, 'sourceImage.maskFileName', issues);
+  }
+
+  if (!Array.isArray(manifest.assets)) {
+    issues.push('assets: expected an array');
+  } else {
+    manifest.assets.forEach((asset, index) => checkAsset(asset, `assets[${index}]`, issues));
+    const ids = manifest.assets.map(asset => (isObject(asset) ? asset.id : undefined));
+    ids.forEach((id, index) => {
+      if (typeof id === 'string' && ids.indexOf(id) !== index) issues.push(`assets[${index}].id: duplicate id "${id}"`);
+    });
+  }
+
+  if (!Array.isArray(manifest.cameras)) {
+    issues.push('cameras: expected an array');
+  } else {
+    manifest.cameras.forEach((camera, index) => checkCamera(camera, `cameras[${index}]`, issues));
+    const activeCameraId = manifest.activeCameraId;
+    if (activeCameraId !== null && !manifest.cameras.some(camera => isObject(camera) && camera.id === activeCameraId)) {
+      issues.push(`activeCameraId: no camera has id ${JSON.stringify(activeCameraId)}`);
+    }
+  }
+
+  if (!Array.isArray(manifest.measurements)) {
+    issues.push('measurements: expected an array');
+  } else {
+    manifest.measurements.forEach((measurement, index) => checkMeasurement(measurement, `measurements[${index}]`, issues));
+  }
+};
+
+/**
+ * Migrates a parsed scene.json to the current version and validates it.
+ * @param raw The parsed JSON.
+ * @param fallbackIntrinsics Intrinsics for version 1 manifests saved without them.
+ * @returns The manifest in the current version.
+ * @throws ManifestValidationError listing every invalid field.
+ */
+export const parseSceneManifest = (raw: unknown, fallbackIntrinsics: CameraIntrinsics): SceneManifest => {
+  if (!isObject(raw)) {
+    throw new ManifestValidationError(['(root): expected a JSON object']);
+  }
+  const version = raw.version ?? 1;
+  if (!isFiniteNumber(version) || !Number.isInteger(version) || version < 1) {
+    throw new ManifestValidationError([`version: expected a positive integer (got ${JSON.stringify(raw.version)})`]);
+  }
+  if (version > SCENE_MANIFEST_VERSION) {
+    throw new ManifestValidationError([
+      `version: this scene was saved by a newer editor (version ${version}; this editor reads up to ${SCENE_MANIFEST_VERSION})`,
+    ]);
+  }
+
+  let manifest = raw;
+  if (version < 2) manifest = migrateFromV1(manifest, fallbackIntrinsics);
+  if (version < 3) manifest = migrateFromV2(manifest);
+  const issues: string[] = [];
+  checkManifest(manifest, issues);
+  if (issues.length > 0) throw new ManifestValidationError(issues);
+  return manifest as unknown as SceneManifest;
+};
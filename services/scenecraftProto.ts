@@ -0,0 +1,347 @@
+import * as THREE from 'three';
+import { CameraIntrinsics, AssetTransform, SceneCamera, CameraExtrinsics } from '../types';
+import {
+  MessageSchema, ProtoMessage, decodeMessage, encodeMessage, bytesToBase64, base64ToBytes,
+  isMessage, messageField, numberField, stringField, bytesField, listField,
+} from './protobuf';
+
+/**
+ * Schemas and typed codecs for the `scenecraft` package.
+ * See scenecraft.proto for the reference definitions.
+ */
+
+export const STRUCTURE3D_MIME_TYPE = 'application/x-protobuf;type=scenecraft.Structure3D';
+export const CAMERA_INTRINSICS_MIME_TYPE = 'application/x-protobuf;type=scenecraft.CameraIntrinsics';
+export const SCENE3D_MIME_TYPE = 'application/x-protobuf;type=scenecraft.Scene3D';
+export const CAMERA_MIME_TYPE = 'application/x-protobuf;type=scenecraft.Camera';
+
+export enum Structure3DFileType {
+  UNSPECIFIED = 0,
+  PLY = 1,
+  SPLAT = 2,
+  GLB = 3,
+}
+
+export interface Structure3D {
+  fileType: Structure3DFileType;
+  data: Uint8Array;
+  label: string;
+}
+
+export const Structure3DSchema: MessageSchema = {
+  name: 'scenecraft.Structure3D',
+  fields: [
+    { name: 'file_type', number: 1, type: 'enum' },
+    { name: 'data', number: 2, type: 'bytes' },
+    { name: 'label', number: 3, type: 'string' },
+  ],
+};
+
+export const CameraIntrinsicsSchema: MessageSchema = {
+  name: 'scenecraft.CameraIntrinsics',
+  fields: [
+    { name: 'image_width', number: 1, type: 'int32' },
+    { name: 'image_height', number: 2, type: 'int32' },
+    { name: 'cx', number: 3, type: 'float' },
+    { name: 'cy', number: 4, type: 'float' },
+    { name: 'fx', number: 5, type: 'float' },
+    { name: 'fy', number: 6, type: 'float' },
+    { name: 'distortion_model', number: 7, type: 'enum' },
+    { name: 'distortion_coefficients', number: 8, type: 'float', repeated: true },
+  ],
+};
+
+export enum DistortionModel {
+  UNSPECIFIED = 0,
+  BROWN_CONRADY = 1,
+  FISHEYE = 2,
+}
+
+// Reads the numeric fields named in `defaults`, keeping the default for missing ones.
+const withNumbers = <T extends Record<string, number>>(message: ProtoMessage | undefined, defaults: T): T =>
+  Object.fromEntries(Object.entries(defaults).map(([name, value]) => [name, numberField(message, name, value)])) as T;
+
+// Reads intrinsics fields, keeping the defaults' values (distortion included) for missing ones.
+const toIntrinsics = (message: ProtoMessage | undefined, defaults: CameraIntrinsics): CameraIntrinsics => {
+  const { image_width, image_height, cx, cy, fx, fy } = defaults;
+  const intrinsics: CameraIntrinsics = { ...defaults, ...withNumbers(message, { image_width, image_height, cx, cy, fx, fy }) };
+  const coefficients = listField(message, 'distortion_coefficients').filter((value): value is number => typeof value === 'number');
+  if (coefficients.length) {
+    intrinsics.distortion = {
+      model: numberField(message, 'distortion_model', DistortionModel.UNSPECIFIED) === DistortionModel.FISHEYE ? 'fisheye' : 'brown-conrady',
+      coefficients,
+    };
+  }
+  return intrinsics;
+};
+
+const fromIntrinsics = ({ distortion, ...pinhole }: CameraIntrinsics): ProtoMessage => ({
+  ...pinhole,
+  distortion_model: distortion
+    ? distortion.model === 'fisheye' ? DistortionModel.FISHEYE : DistortionModel.BROWN_CONRADY
+    : undefined,
+  distortion_coefficients: distortion?.coefficients ?? [],
+});
+
+const toStructure3D = (message: ProtoMessage): Structure3D => ({
+  fileType: numberField(message, 'file_type', Structure3DFileType.UNSPECIFIED),
+  data: bytesField(message, 'data'),
+  label: stringField(message, 'label'),
+});
+
+/**
+ * Decodes a scenecraft.Structure3D protobuf message.
+ * @param protoBytes The raw Uint8Array from the model.
+ * @returns The decoded structure with file type, data, and label.
+ */
+export const decodeStructure3D = (protoBytes: Uint8Array): Structure3D =>
+  toStructure3D(decodeMessage(Structure3DSchema, protoBytes));
+
+export const encodeStructure3D = (structure: Structure3D): Uint8Array =>
+  encodeMessage(Structure3DSchema, {
+    file_type: structure.fileType,
+    data: structure.data,
+    label: structure.label,
+  });
+
+/**
+ * Decodes a scenecraft.CameraIntrinsics protobuf message.
+ * @param protoBytes The raw Uint8Array from the model.
+ * @param defaults Values for fields missing from the message.
+ * @returns The decoded CameraIntrinsics object.
+ */
+export const decodeCameraIntrinsics = (protoBytes: Uint8Array, defaults: CameraIntrinsics): CameraIntrinsics =>
+  toIntrinsics(decodeMessage(CameraIntrinsicsSchema, protoBytes), defaults);
+
+export const encodeCameraIntrinsics = (intrinsics: CameraIntrinsics): Uint8Array =>
+  encodeMessage(CameraIntrinsicsSchema, fromIntrinsics(intrinsics));
+
+export interface Pose {
+  position: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number; w: number }; // quaternion
+  scale: { x: number; y: number; z: number };
+}
+
+export interface SceneObject {
+  id: string;
+  structure: Structure3D | null;
+  pose: Pose;
+  parentId: string;
+  semanticClass: string;
+}
+
+export interface Scene3D {
+  objects: SceneObject[];
+  cameras: SceneCamera[];
+}
+
+const Vector3fSchema: MessageSchema = {
+  name: 'scenecraft.Vector3f',
+  fields: [
+    { name: 'x', number: 1, type: 'float' },
+    { name: 'y', number: 2, type: 'float' },
+    { name: 'z', number: 3, type: 'float' },
+  ],
+};
+
+const QuaternionfSchema: MessageSchema = {
+  name: 'scenecraft.Quaternionf',
+  fields: [
+    { name: 'x', number: 1, type: 'float' },
+    { name: 'y', number: 2, type: 'float' },
+    { name: 'z', number: 3, type: 'float' },
+    { name: 'w', number: 4, type: 'float' },
+  ],
+};
+
+export const PoseSchema: MessageSchema = {
+  name: 'scenecraft.Pose',
+  fields: [
+    { name: 'position', number: 1, type: 'message', message: Vector3fSchema },
+    { name: 'rotation', number: 2, type: 'message', message: QuaternionfSchema },
+    { name: 'scale', number: 3, type: 'message', message: Vector3fSchema },
+  ],
+};
+
+export const SceneObjectSchema: MessageSchema = {
+  name: 'scenecraft.SceneObject',
+  fields: [
+    { name: 'id', number: 1, type: 'string' },
+    { name: 'structure', number: 2, type: 'message', message: Structure3DSchema },
+    { name: 'pose', number: 3, type: 'message', message: PoseSchema },
+    { name: 'parent_id', number: 4, type: 'string' },
+    { name: 'semantic_class', number: 5, type: 'string' },
+  ],
+};
+
+export const CameraExtrinsicsSchema: MessageSchema = {
+  name: 'scenecraft.CameraExtrinsics',
+  fields: [
+    { name: 'rotation', number: 1, type: 'double', repeated: true },
+    { name: 'translation', number: 2, type: 'message', message: Vector3fSchema },
+  ],
+};
+
+export const CameraSchema: MessageSchema = {
+  name: 'scenecraft.Camera',
+  fields: [
+    { name: 'name', number: 1, type: 'string' },
+    { name: 'intrinsics', number: 2, type: 'message', message: CameraIntrinsicsSchema },
+    { name: 'extrinsics', number: 3, type: 'message', message: CameraExtrinsicsSchema },
+    { name: 'image', number: 4, type: 'bytes' },
+    { name: 'image_mime_type', number: 5, type: 'string' },
+  ],
+};
+
+export const Scene3DSchema: MessageSchema = {
+  name: 'scenecraft.Scene3D',
+  fields: [
+    { name: 'objects', number: 1, type: 'message', repeated: true, message: SceneObjectSchema },
+    { name: 'cameras', number: 2, type: 'message', repeated: true, message: CameraSchema },
+  ],
+};
+
+export const IDENTITY_EXTRINSICS: CameraExtrinsics = {
+  rotation: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+  translation: { x: 0, y: 0, z: 0 },
+};
+
+const toSceneCamera = (message: ProtoMessage, index: number, defaultIntrinsics: CameraIntrinsics): SceneCamera => {
+  const extrinsics = messageField(message, 'extrinsics');
+  const rotation = listField(extrinsics, 'rotation').filter((value): value is number => typeof value === 'number');
+  const image = bytesField(message, 'image');
+  return {
+    id: crypto.randomUUID(),
+    name: stringField(message, 'name') || `Camera ${index + 1}`,
+    intrinsics: toIntrinsics(messageField(message, 'intrinsics'), defaultIntrinsics),
+    extrinsics: {
+      rotation: rotation.length === 9 ? rotation : IDENTITY_EXTRINSICS.rotation,
+      translation: withNumbers(messageField(extrinsics, 'translation'), { x: 0, y: 0, z: 0 }),
+    },
+    sourceImage: image.length
+      ? `data:${stringField(message, 'image_mime_type') || 'image/png'};base64,${bytesToBase64(image)}`
+      : null,
+  };
+};
+
+/**
+ * Decodes a scenecraft.Camera protobuf message.
+ * @param protoBytes The raw Uint8Array from the model.
+ * @param defaultIntrinsics Values for intrinsics fields missing from the message.
+ * @returns The camera with a fresh id.
+ */
+export const decodeCamera = (protoBytes: Uint8Array, defaultIntrinsics: CameraIntrinsics): SceneCamera =>
+  toSceneCamera(decodeMessage(CameraSchema, protoBytes), 0, defaultIntrinsics);
+
+// A missing rotation or scale message is the identity, but within a present one
+// missing fields are proto3 zeros (a 180° turn has w = 0 and is not on the wire).
+const toPose = (message: ProtoMessage | undefined): Pose => {
+  const rotation = messageField(message, 'rotation');
+  const scale = messageField(message, 'scale');
+  return {
+    position: withNumbers(messageField(message, 'position'), { x: 0, y: 0, z: 0 }),
+    rotation: rotation ? withNumbers(rotation, { x: 0, y: 0, z: 0, w: 0 }) : { x: 0, y: 0, z: 0, w: 1 },
+    scale: scale ? withNumbers(scale, { x: 0, y: 0, z: 0 }) : { x: 1, y: 1, z: 1 },
+  };
+};
+
+/**
+ * Decodes a scenecraft.Scene3D protobuf message.
+ * @param protoBytes The raw Uint8Array from the model.
+ * @param defaultIntrinsics Values for camera intrinsics fields missing from the message.
+ * @returns The scene objects with defaults applied to missing poses and ids.
+ */
+export const decodeScene3D = (protoBytes: Uint8Array, defaultIntrinsics: CameraIntrinsics): Scene3D => {
+  const message = decodeMessage(Scene3DSchema, protoBytes);
+  return {
+    cameras: listField(message, 'cameras').filter(isMessage).map((camera, index) => toSceneCamera(camera, index, defaultIntrinsics)),
+    objects: listField(message, 'objects').filter(isMessage).map((object, index): SceneObject => {
+      const structure = messageField(object, 'structure');
+      return {
+        id: stringField(object, 'id') || `object_${index}`,
+        structure: structure ? toStructure3D(structure) : null,
+        pose: toPose(messageField(object, 'pose')),
+        parentId: stringField(object, 'parent_id'),
+        semanticClass: stringField(object, 'semantic_class'),
+      };
+    }),
+  };
+};
+
+export const encodeScene3D = (scene: Scene3D): Uint8Array =>
+  encodeMessage(Scene3DSchema, {
+    objects: scene.objects.map(object => ({
+      id: object.id,
+      structure: object.structure && {
+        file_type: object.structure.fileType,
+        data: object.structure.data,
+        label: object.structure.label,
+      },
+      pose: object.pose,
+      parent_id: object.parentId,
+      semantic_class: object.semanticClass,
+    })),
+    cameras: scene.cameras.map(camera => {
+      const image = camera.sourceImage?.match(/^data:([^;]+);base64,(.*)$/);
+      return {
+        name: camera.name,
+        intrinsics: fromIntrinsics(camera.intrinsics),
+        extrinsics: camera.extrinsics,
+        image: image ? base64ToBytes(image[2]) : undefined,
+        image_mime_type: image ? image[1] : undefined,
+      };
+    }),
+  });
+
+const poseToMatrix = (pose: Pose): THREE.Matrix4 =>
+  new THREE.Matrix4().compose(
+    new THREE.Vector3(pose.position.x, pose.position.y, pose.position.z),
+    new THREE.Quaternion(pose.rotation.x, pose.rotation.y, pose.rotation.z, pose.rotation.w).normalize(),
+    new THREE.Vector3(pose.scale.x, pose.scale.y, pose.scale.z)
+  );
+
+const matrixToTransform = (matrix: THREE.Matrix4): AssetTransform => {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  matrix.decompose(position, quaternion, scale);
+  const euler = new THREE.Euler().setFromQuaternion(quaternion);
+  return {
+    position: { x: position.x, y: position.y, z: position.z },
+    rotation: {
+      x: THREE.MathUtils.radToDeg(euler.x),
+      y: THREE.MathUtils.radToDeg(euler.y),
+      z: THREE.MathUtils.radToDeg(euler.z),
+    },
+    scale: { x: scale.x, y: scale.y, z: scale.z },
+  };
+};
+
+/**
+ * Resolves each object's pose through its parent chain into a scene-space
+ * transform. Unknown parents and cycles are treated as the scene root.
+ * @param objects The decoded scene objects.
+ * @returns Transforms keyed by scene object id.
+ */
+export const resolveWorldTransforms = (objects: SceneObject[]): Map<string, AssetTransform> => {
+  const byId = new Map(objects.map(object => [object.id, object]));
+  const worldMatrices = new Map<string, THREE.Matrix4>();
+
+  const resolve = (object: SceneObject, visiting: Set<string>): THREE.Matrix4 => {
+    const cached = worldMatrices.get(object.id);
+    if (cached) return cached;
+    const local = poseToMatrix(object.pose);
+    const parent = byId.get(object.parentId);
+    let world = local;
+    if (parent && !visiting.has(parent.id)) {
+      visiting.add(object.id);
+      world = resolve(parent, visiting).clone().multiply(local);
+    }
+    worldMatrices.set(object.id, world);
+    return world;
+  };
+
+  const transforms = new Map<string, AssetTransform>();
+  objects.forEach(object => transforms.set(object.id, matrixToTransform(resolve(object, new Set()))));
+  return transforms;
+};
@@ -0,0 +1,255 @@
+/**
+ * Parsers for Gaussian splat data.
+ *
+ * Two on-disk layouts are supported:
+ *  - `.splat`: the compact 32-byte-per-splat layout (position, linear scale,
+ *    RGBA8 color, quantized rotation quaternion).
+ *  - 3DGS-style PLY: a binary PLY whose vertex element carries `x/y/z`,
+ *    `scale_*` (log scale), `rot_*` (w, x, y, z), `opacity` (logit) and the
+ *    spherical-harmonics DC term `f_dc_*`.
+ *
+ * Both are normalized into `SplatData`, which stores each splat's center,
+ * its 3D covariance (upper triangle) and a straight-alpha RGBA color.
+ */
+
+export interface SplatData {
+  count: number;
+  centers: Float32Array;     // 3 floats per splat
+  covariances: Float32Array; // 6 floats per splat: xx, xy, xz, yy, yz, zz
+  colors: Float32Array;      // 4 floats per splat, RGBA in [0, 1]
+}
+
+const SPLAT_ROW_BYTES = 32;
+const SH_C0 = 0.28209479177387814;
+
+const PLY_TYPE_SIZES: Record<string, number> = {
+  char: 1, int8: 1, uchar: 1, uint8: 1,
+  short: 2, int16: 2, ushort: 2, uint16: 2,
+  int: 4, int32: 4, uint: 4, uint32: 4,
+  float: 4, float32: 4, double: 8, float64: 8,
+};
+
+interface PlyProperty {
+  name: string;
+  type: string;
+  offset: number;
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  stride: number;
+  properties: PlyProperty[];
+  hasList: boolean;
+}
+
+interface PlyHeader {
+  format: string;
+  elements: PlyElement[];
+  dataOffset: number;
+}
+
+/**
+ * Reads the ASCII header of a PLY file.
+ * @param buffer The raw file contents.
+ * @returns The parsed header, or null if the buffer is not a PLY file.
+ */
+const readPlyHeader = (buffer: ArrayBuffer): PlyHeader | null => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 4 || bytes[0] !== 0x70 || bytes[1] !== 0x6c || bytes[2] !== 0x79) return null; // "ply"
+
+  const terminator = 'end_header';
+  const headerSlice = new TextDecoder().decode(bytes.subarray(0, Math.min(bytes.length, 64 * 1024)));
+  const endIndex = headerSlice.indexOf(terminator);
+  if (endIndex < 0) return null;
+  // The header is ASCII, so character offsets equal byte offsets.
+  let dataOffset = endIndex + terminator.length;
+  if (headerSlice[dataOffset] === '\r') dataOffset++;
+  if (headerSlice[dataOffset] === '\n') dataOffset++;
+
+  const header: PlyHeader = { format: '', elements: [], dataOffset };
+  let current: PlyElement | null = null;
+
+  headerSlice.substring(0, endIndex).split(/\r?\n/).forEach(line => {
+    const tokens = line.trim().split(/\s+/);
+    switch (tokens[0]) {
+      case 'format':
+        header.format = tokens[1];
+        break;
+      case 'element':
+        current = { name: tokens[1], count: parseInt(tokens[2], 10), stride: 0, properties: [], hasList: false };
+        header.elements.push(current);
+        break;
+      case 'property':
+        if (!current) break;
+        if (tokens[1] === 'list') {
+          current.hasList = true;
+        } else {
+          current.properties.push({ name: tokens[2], type: tokens[1], offset: current.stride });
+          current.stride += PLY_TYPE_SIZES[tokens[1]] ?? 0;
+        }
+        break;
+    }
+  });
+
+  return header;
+};
+
+/**
+ * Checks whether a buffer holds a 3DGS-style PLY (as opposed to a regular mesh
+ * or point cloud PLY).
+ */
+export const isGaussianSplatPly = (buffer: ArrayBuffer): boolean => {
+  const header = readPlyHeader(buffer);
+  const vertex = header?.elements.find(e => e.name === 'vertex');
+  if (!vertex) return false;
+  const names = new Set(vertex.properties.map(p => p.name));
+  return names.has('f_dc_0') && names.has('scale_0') && names.has('rot_0') && names.has('opacity');
+};
+
+/**
+ * Writes the 3D covariance R * S * S^T * R^T for one splat.
+ * The quaternion is given as (w, x, y, z) and does not need to be normalized.
+ */
+const writeCovariance = (
+  out: Float32Array, index: number,
+  sx: number, sy: number, sz: number,
+  qw: number, qx: number, qy: number, qz: number
+) => {
+  const len = Math.hypot(qw, qx, qy, qz) || 1;
+  const w = qw / len, x = qx / len, y = qy / len, z = qz / len;
+
+  // Rotation matrix rows, scaled column-wise by S.
+  const m00 = (1 - 2 * (y * y + z * z)) * sx, m01 = 2 * (x * y - w * z) * sy, m02 = 2 * (x * z + w * y) * sz;
+  const m10 = 2 * (x * y + w * z) * sx, m11 = (1 - 2 * (x * x + z * z)) * sy, m12 = 2 * (y * z - w * x) * sz;
+  const m20 = 2 * (x * z - w * y) * sx, m21 = 2 * (y * z + w * x) * sy, m22 = (1 - 2 * (x * x + y * y)) * sz;
+
+  const o = index * 6;
+  out[o] = m00 * m00 + m01 * m01 + m02 * m02;
+  out[o + 1] = m00 * m10 + m01 * m11 + m02 * m12;
+  out[o + 2] = m00 * m20 + m01 * m21 + m02 * m22;
+  out[o + 3] = m10 * m10 + m11 * m11 + m12 * m12;
+  out[o + 4] = m10 * m20 + m11 * m21 + m12 * m22;
+  out[o + 5] = m20 * m20 + m21 * m21 + m22 * m22;
+};
+
+const allocate = (count: number): SplatData => ({
+  count,
+  centers: new Float32Array(count * 3),
+  covariances: new Float32Array(count * 6),
+  colors: new Float32Array(count * 4),
+});
+
+/**
+ * Parses the compact `.splat` layout.
+ * @param buffer The raw file contents.
+ * @returns The decoded splats.
+ */
+export const parseSplatFile = (buffer: ArrayBuffer): SplatData => {
+  const count = Math.floor(buffer.byteLength / SPLAT_ROW_BYTES);
+  const floats = new Float32Array(buffer, 0, count * 8);
+  const bytes = new Uint8Array(buffer);
+  const splats = allocate(count);
+
+  for (let i = 0; i < count; i++) {
+    const f = i * 8;
+    const b = i * SPLAT_ROW_BYTES;
+    splats.centers[i * 3] = floats[f];
+    splats.centers[i * 3 + 1] = floats[f + 1];
+    splats.centers[i * 3 + 2] = floats[f + 2];
+    splats.colors[i * 4] = bytes[b + 24] / 255;
+    splats.colors[i * 4 + 1] = bytes[b + 25] / 255;
+    splats.colors[i * 4 + 2] = bytes[b + 26] / 255;
+    splats.colors[i * 4 + 3] = bytes[b + 27] / 255;
+    writeCovariance(
+      splats.covariances, i,
+      floats[f + 3], floats[f + 4], floats[f + 5],
+      (bytes[b + 28] - 128) / 128, (bytes[b + 29] - 128) / 128, (bytes[b + 30] - 128) / 128, (bytes[b + 31] - 128) / 128
+    );
+  }
+  return splats;
+};
+
+/**
+ * Parses a binary little-endian 3DGS PLY.
+ * @param buffer The raw file contents.
+ * @returns The decoded splats.
+ */
+export const parseGaussianPly = (buffer: ArrayBuffer): SplatData => {
+  const header = readPlyHeader(buffer);
+  if (!header) throw new Error('Not a PLY file.');
+  if (header.format !== 'binary_little_endian') {
+    throw new Error(`Unsupported PLY format for Gaussian splats: ${header.format}`);
+  }
+
+  const view = new DataView(buffer);
+  let offset = header.dataOffset;
+  let vertex: PlyElement | undefined;
+  for (const element of header.elements) {
+    if (element.name === 'vertex') {
+      vertex = element;
+      break;
+    }
+    if (element.hasList) throw new Error(`Cannot skip PLY element '${element.name}' with list properties.`);
+    offset += element.count * element.stride;
+  }
+  if (!vertex) throw new Error('PLY file has no vertex element.');
+  if (vertex.hasList) throw new Error('Gaussian splat vertices cannot contain list properties.');
+
+  const readers = new Map<string, (base: number) => number>();
+  vertex.properties.forEach(({ name, type, offset: propOffset }) => {
+    switch (type) {
+      case 'float': case 'float32': readers.set(name, base => view.getFloat32(base + propOffset, true)); break;
+      case 'double': case 'float64': readers.set(name, base => view.getFloat64(base + propOffset, true)); break;
+      case 'uchar': case 'uint8': readers.set(name, base => view.getUint8(base + propOffset)); break;
+      case 'char': case 'int8': readers.set(name, base => view.getInt8(base + propOffset)); break;
+      case 'short': case 'int16': readers.set(name, base => view.getInt16(base + propOffset, true)); break;
+      case 'ushort': case 'uint16': readers.set(name, base => view.getUint16(base + propOffset, true)); break;
+      case 'int': case 'int32': readers.set(name, base => view.getInt32(base + propOffset, true)); break;
+      case 'uint': case 'uint32': readers.set(name, base => view.getUint32(base + propOffset, true)); break;
+    }
+  });
+  const read = (name: string, fallback: number) => {
+    const reader = readers.get(name);
+    return reader ? reader : () => fallback;
+  };
+
+  const x = read('x', 0), y = read('y', 0), z = read('z', 0);
+  const s0 = read('scale_0', 0), s1 = read('scale_1', 0), s2 = read('scale_2', 0);
+  const r0 = read('rot_0', 1), r1 = read('rot_1', 0), r2 = read('rot_2', 0), r3 = read('rot_3', 0);
+  const dc0 = read('f_dc_0', 0), dc1 = read('f_dc_1', 0), dc2 = read('f_dc_2', 0);
+  const opacity = read('opacity', 0);
+
+  const count = vertex.count;
+  if (offset + count * vertex.stride > buffer.byteLength) {
+    throw new Error('PLY file is truncated.');
+  }
+  const splats = allocate(count);
+  const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+  for (let i = 0; i < count; i++) {
+    const base = offset + i * vertex.stride;
+    splats.centers[i * 3] = x(base);
+    splats.centers[i * 3 + 1] = y(base);
+    splats.centers[i * 3 + 2] = z(base);
+    splats.colors[i * 4] = clamp01(0.5 + SH_C0 * dc0(base));
+    splats.colors[i * 4 + 1] = clamp01(0.5 + SH_C0 * dc1(base));
+    splats.colors[i * 4 + 2] = clamp01(0.5 + SH_C0 * dc2(base));
+    splats.colors[i * 4 + 3] = 1 / (1 + Math.exp(-opacity(base)));
+    writeCovariance(
+      splats.covariances, i,
+      Math.exp(s0(base)), Math.exp(s1(base)), Math.exp(s2(base)),
+      r0(base), r1(base), r2(base), r3(base)
+    );
+  }
+  return splats;
+};
+
+/**
+ * Parses Gaussian splat data in either supported layout, detected from the
+ * file's magic bytes.
+ * @param buffer The raw file contents.
+ * @returns The decoded splats.
+ */
+export const parseSplats = (buffer: ArrayBuffer): SplatData =>
+  readPlyHeader(buffer) ? parseGaussianPly(buffer) : parseSplatFile(buffer);
@@ -0,0 +1,237 @@
+import * as THREE from 'three';
+import { SplatData } from './splatLoader';
+
+/**
+ * Renders Gaussian splats as camera-facing instanced quads.
+ *
+ * Each splat's 3D covariance is projected to a 2D screen-space ellipse in the
+ * vertex shader using the Jacobian of whatever projection matrix is active, so
+ * the same object works with the intrinsics-driven perspective camera and the
+ * top-down orthographic camera. Splats are blended back-to-front; the instance
+ * buffers are re-sorted by view depth whenever the camera moves relative to
+ * the object.
+ */
+
+const vertexShader = /* glsl */ `
+  uniform vec2 viewport;
+  uniform float isOrthographic;
+
+  attribute vec3 splatCenter;
+  attribute vec3 splatCovA;
+  attribute vec3 splatCovB;
+  attribute vec4 splatColor;
+
+  varying vec4 vColor;
+  varying vec2 vPosition;
+
+  void main() {
+    vec4 viewCenter = modelViewMatrix * vec4(splatCenter, 1.0);
+    vec4 clipCenter = projectionMatrix * viewCenter;
+    if (clipCenter.w <= 0.0) {
+      gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+      return;
+    }
+
+    mat3 covariance = mat3(
+      splatCovA.x, splatCovA.y, splatCovA.z,
+      splatCovA.y, splatCovB.x, splatCovB.y,
+      splatCovA.z, splatCovB.y, splatCovB.z
+    );
+
+    // Jacobian of the projection, expressed in pixels per view-space unit.
+    vec2 halfViewport = viewport * 0.5;
+    float px = projectionMatrix[0][0] * halfViewport.x;
+    float py = projectionMatrix[1][1] * halfViewport.y;
+    mat3 J;
+    if (isOrthographic > 0.5) {
+      J = mat3(px, 0.0, 0.0, 0.0, py, 0.0, 0.0, 0.0, 0.0);
+    } else {
+      float z = viewCenter.z;
+      J = mat3(
+        -px / z, 0.0, 0.0,
+        0.0, -py / z, 0.0,
+        px * viewCenter.x / (z * z), py * viewCenter.y / (z * z), 0.0
+      );
+    }
+
+    mat3 T = J * mat3(modelViewMatrix);
+    mat3 cov2d = T * covariance * transpose(T);
+
+    // Low-pass filter so sub-pixel splats still cover at least one pixel.
+    float a = cov2d[0][0] + 0.3;
+    float b = cov2d[0][1];
+    float c = cov2d[1][1] + 0.3;
+
+    float mid = 0.5 * (a + c);
+    float radius = length(vec2(0.5 * (a - c), b));
+    float lambda1 = mid + radius;
+    float lambda2 = max(mid - radius, 0.1);
+
+    vec2 direction;
+    if (abs(b) < 1e-6) {
+      direction = a >= c ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
+    } else {
+      direction = normalize(vec2(b, lambda1 - a));
+    }
+    vec2 majorAxis = min(sqrt(lambda1), 1024.0) * direction;
+    vec2 minorAxis = min(sqrt(lambda2), 1024.0) * vec2(direction.y, -direction.x);
+
+    vColor = splatColor;
+    vPosition = position.xy;
+
+    vec2 offset = (position.x * majorAxis + position.y * minorAxis) / halfViewport;
+    vec3 ndcCenter = clipCenter.xyz / clipCenter.w;
+    gl_Position = vec4(ndcCenter.xy + offset, ndcCenter.z, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  varying vec4 vColor;
+  varying vec2 vPosition;
+
+  void main() {
+    float power = -0.5 * dot(vPosition, vPosition);
+    float alpha = exp(power) * vColor.a;
+    if (alpha < 1.0 / 255.0) discard;
+    gl_FragColor = vec4(vColor.rgb, alpha);
+  }
+`;
+
+// Quad extent in standard deviations.
+const QUAD_EXTENT = 3;
+
+/**
+ * Creates a mesh that renders the given splats. The mesh's geometry carries a
+ * bounding box computed from the splat centers so selection helpers, framing
+ * and TransformControls behave like they do for regular meshes.
+ * @param splats The decoded splat data.
+ * @returns A `THREE.Mesh` ready to be added to the scene.
+ */
+export const createSplatMesh = (splats: SplatData): THREE.Mesh => {
+  const { count } = splats;
+
+  const geometry = new THREE.InstancedBufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute([
+    -QUAD_EXTENT, -QUAD_EXTENT, 0,
+    QUAD_EXTENT, -QUAD_EXTENT, 0,
+    QUAD_EXTENT, QUAD_EXTENT, 0,
+    -QUAD_EXTENT, QUAD_EXTENT, 0,
+  ], 3));
+  geometry.setIndex([0, 1, 2, 0, 2, 3]);
+
+  const centers = new Float32Array(count * 3);
+  const covA = new Float32Array(count * 3);
+  const covB = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 4);
+
+  const centerAttr = new THREE.InstancedBufferAttribute(centers, 3);
+  const covAAttr = new THREE.InstancedBufferAttribute(covA, 3);
+  const covBAttr = new THREE.InstancedBufferAttribute(covB, 3);
+  const colorAttr = new THREE.InstancedBufferAttribute(colors, 4);
+  [centerAttr, covAAttr, covBAttr, colorAttr].forEach(attr => attr.setUsage(THREE.DynamicDrawUsage));
+  geometry.setAttribute('splatCenter', centerAttr);
+  geometry.setAttribute('splatCovA', covAAttr);
+  geometry.setAttribute('splatCovB', covBAttr);
+  geometry.setAttribute('splatColor', colorAttr);
+  geometry.instanceCount = count;
+
+  // Bounds come from the splat centers rather than the template quad.
+  const bounds = new THREE.Box3();
+  bounds.setFromArray(splats.centers);
+  geometry.boundingBox = bounds;
+  geometry.boundingSphere = bounds.getBoundingSphere(new THREE.Sphere());
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      viewport: { value: new THREE.Vector2(1, 1) },
+      isOrthographic: { value: 0 },
+    },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+    depthTest: true,
+    toneMapped: false,
+    side: THREE.DoubleSide,
+  });
+
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.frustumCulled = false;
+  mesh.userData.isSplat = true;
+  mesh.userData.splats = splats;
+
+  const depths = new Float32Array(count);
+  const depthKeys = new Uint32Array(count);
+  const order = new Uint32Array(count);
+  const counts = new Uint32Array(256 * 256);
+  const starts = new Uint32Array(256 * 256);
+  const modelView = new THREE.Matrix4();
+  const lastModelView = new THREE.Matrix4();
+  let hasSorted = false;
+
+  const sortByDepth = (camera: THREE.Camera) => {
+    modelView.multiplyMatrices(camera.matrixWorldInverse, mesh.matrixWorld);
+    if (hasSorted && modelView.equals(lastModelView)) return;
+    lastModelView.copy(modelView);
+    hasSorted = true;
+
+    const e = modelView.elements;
+    const src = splats.centers;
+    let minDepth = Infinity;
+    let maxDepth = -Infinity;
+    for (let i = 0; i < count; i++) {
+      const depth = e[2] * src[i * 3] + e[6] * src[i * 3 + 1] + e[10] * src[i * 3 + 2] + e[14];
+      depths[i] = depth;
+      if (depth < minDepth) minDepth = depth;
+      if (depth > maxDepth) maxDepth = depth;
+    }
+
+    // 16-bit counting sort, farthest (most negative view z) first.
+    const range = maxDepth - minDepth;
+    const scale = range > 0 ? (256 * 256 - 1) / range : 0;
+    counts.fill(0);
+    for (let i = 0; i < count; i++) {
+      const key = ((depths[i] - minDepth) * scale) | 0;
+      depthKeys[i] = key;
+      counts[key]++;
+    }
+    starts[0] = 0;
+    for (let i = 1; i < counts.length; i++) starts[i] = starts[i - 1] + counts[i - 1];
+    for (let i = 0; i < count; i++) order[starts[depthKeys[i]]++] = i;
+
+    for (let j = 0; j < count; j++) {
+      const i = order[j];
+      centers[j * 3] = src[i * 3];
+      centers[j * 3 + 1] = src[i * 3 + 1];
+      centers[j * 3 + 2] = src[i * 3 + 2];
+      const c = i * 6;
+      covA[j * 3] = splats.covariances[c];
+      covA[j * 3 + 1] = splats.covariances[c + 1];
+      covA[j * 3 + 2] = splats.covariances[c + 2];
+      covB[j * 3] = splats.covariances[c + 3];
+      covB[j * 3 + 1] = splats.covariances[c + 4];
+      covB[j * 3 + 2] = splats.covariances[c + 5];
+      colors[j * 4] = splats.colors[i * 4];
+      colors[j * 4 + 1] = splats.colors[i * 4 + 1];
+      colors[j * 4 + 2] = splats.colors[i * 4 + 2];
+      colors[j * 4 + 3] = splats.colors[i * 4 + 3];
+    }
+    centerAttr.needsUpdate = true;
+    covAAttr.needsUpdate = true;
+    covBAttr.needsUpdate = true;
+    colorAttr.needsUpdate = true;
+  };
+
+  mesh.onBeforeRender = (renderer: THREE.WebGLRenderer, _scene: THREE.Scene, camera: THREE.Camera) => {
+    const target = renderer.getRenderTarget();
+    if (target) {
+      material.uniforms.viewport.value.set(target.width, target.height);
+    } else {
+      renderer.getDrawingBufferSize(material.uniforms.viewport.value);
+    }
+    material.uniforms.isOrthographic.value = (camera as THREE.OrthographicCamera).isOrthographicCamera ? 1 : 0;
+    sortByDepth(camera);
+  };
+
+  return mesh;
+};
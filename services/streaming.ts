@@ -0,0 +1,34 @@
+import { GeminiPart, ConversationTurn } from '../types';
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  /**
+   * Called for every streamed chunk.
+   * @param parts The response so far, with consecutive text chunks merged.
+   * @param completed The inlineData parts that arrived in this chunk.
+   */
+  onChunk?: (parts: GeminiPart[], completed: GeminiPart[]) => void;
+}
+
+/**
+ * A backend that answers a conversation with response parts. Implementations
+ * throw on errors (including aborts) and report progress through `onChunk`.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  generate(request: GeminiPart[], history: ConversationTurn[], options: StreamOptions): Promise<GeminiPart[]>;
+}
+
+/**
+ * Appends a streamed part to a response, merging consecutive text chunks.
+ * @returns True when the part is a complete inlineData part.
+ */
+export const appendStreamedPart = (parts: GeminiPart[], part: GeminiPart): boolean => {
+  const last = parts[parts.length - 1];
+  if (part.text && !part.inlineData && last?.text && !last.inlineData) {
+    parts[parts.length - 1] = { text: last.text + part.text };
+    return false;
+  }
+  parts.push(part);
+  return !!part.inlineData;
+};
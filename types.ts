@@ -10,6 +10,14 @@ export interface AssetTransform {
   scale: Vector3;
 }
 
+// Lens distortion with OpenCV's coefficient order: [k1, k2, p1, p2, k3, k4, k5, k6]
+// for 'brown-conrady' and [k1, k2, k3, k4] for 'fisheye'. Missing trailing
+// coefficients are zero.
+export interface LensDistortion {
+  model: 'brown-conrady' | 'fisheye';
+  coefficients: number[];
+}
+
 export interface CameraIntrinsics {
   image_width: number;
   image_height: number;
@@ -17,6 +25,7 @@ export interface CameraIntrinsics {
   cy: number;
   fx: number;
   fy: number;
+  distortion?: LensDistortion; // absent for an ideal pinhole camera
 }
 
 export interface GeminiPart {
@@ -27,17 +36,152 @@ export interface GeminiPart {
   };
 }
 
+// World-to-camera transform in the OpenCV convention (x_cam = R * x_world + t;
+// camera looks along +Z with Y down). Identity is the default camera at the origin.
+export interface CameraExtrinsics {
+  rotation: number[]; // 3x3, row-major
+  translation: Vector3;
+}
+
+export interface SceneCamera {
+  id: string;
+  name: string;
+  intrinsics: CameraIntrinsics;
+  extrinsics: CameraExtrinsics;
+  sourceImage: string | null; // data URL of the photo taken from this camera
+}
+
+// An image attached to the prompt, kept as base64 so it can be sent as an inlineData part.
+export interface PromptImage {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: string; // base64 encoded
+}
+
+// How PLY geometry is drawn. 'auto' draws a mesh when the file has faces and points otherwise.
+export interface PointCloudDisplay {
+  mode: 'auto' | 'mesh' | 'points';
+  pointSize: number; // pixels
+  colorBy: 'rgb' | 'height' | 'intensity';
+}
+
 export interface ThreeDAsset {
   id: string;
-  data: Blob;
-  fileType: 'ply' | 'glb';
+  data: Blob; // empty for groups
+  fileType: 'ply' | 'glb' | 'gltf' | 'splat' | 'obj' | 'stl' | 'fbx' | 'usdz' | 'group';
+  // Files the main file references (glTF buffers, OBJ materials, textures), by relative path.
+  resources?: Record<string, Blob>;
   label: string;
-  source: 'model' | 'upload';
+  source: 'model' | 'upload' | 'editor';
   visible: boolean;
+  // Scene-space placement applied when the asset is loaded. Once nested under
+  // its parent, the live transform is local to the parent.
   initialTransform?: AssetTransform;
+  // What initialTransform positions: the geometry's bounding-box center (the
+  // default, as saved by the editor) or its original origin (poses from Scene3D).
+  transformOrigin?: 'center' | 'origin';
+  // The asset (often a group) this one is nested under, if any.
+  parentId?: string;
+  semanticClass?: string;
+  // PLY display settings; defaults apply when unset.
+  pointDisplay?: PointCloudDisplay;
+  // When no initial transform is given, shift the asset so it does not overlap the existing scene.
+  placeBesideScene?: boolean;
+}
+
+// Increments the transform gizmo snaps to while snapping is on.
+export interface SnapSettings {
+  enabled: boolean;
+  translation: number; // scene units
+  rotation: number; // degrees
+  scale: number;
+}
+
+// A measurement taken in the viewport. Distances use two points; angles use
+// three, measured at the middle one. Points are in scene space.
+export interface Measurement {
+  id: string;
+  kind: 'distance' | 'angle';
+  points: Vector3[];
+}
+
+// Offscreen render passes of the calibrated camera. Every buffer is row-major
+// from the image's top-left corner, one entry (or channel group) per pixel.
+export interface CameraRender {
+  width: number;
+  height: number;
+  rgb: Uint8ClampedArray; // RGBA, transparent where nothing was drawn
+  depth: Float32Array; // distance along the optical axis in scene units, 0 where nothing was hit
+  normals: Float32Array; // xyz unit normals in the OpenCV camera frame, zero where unknown
+  instances: Uint16Array; // 0 for background, otherwise an index into instanceAssetIds plus one
+  instanceAssetIds: string[];
+}
+
+// How assets are drawn over the source image through the calibrated camera.
+export interface ReprojectionSettings {
+  enabled: boolean;
+  style: 'silhouette' | 'wireframe';
+  edgesOnly: boolean; // silhouette outlines only
+  opacity: number; // 0 to 1
+}
+
+// Which side of the selection's combined bounds to line assets up on.
+export type AlignMode = 'min' | 'center' | 'max';
+
+// How a new generation request treats the assets already in the scene.
+export type GenerationMode = 'replace-scene' | 'append' | 'replace-selected';
+
+export interface ConversationTurn {
+  request: GeminiPart[];
+  response: GeminiPart[];
+}
+
+// Everything needed to reopen a project. Asset initial transforms hold the
+// scene-space transforms at the time of saving.
+export interface ProjectData {
+  assets: ThreeDAsset[];
+  intrinsics: CameraIntrinsics;
+  sourceImage: string | null;
+  showSourceImage: boolean;
+  cameras: SceneCamera[];
+  activeCameraId: string | null;
+  conversation: ConversationTurn[];
+  responseParts: GeminiPart[];
+  measurements?: Measurement[]; // absent in projects saved before measurements existed
+  segmentationMask?: string | null; // data URL of a mask for the source image
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number; // ms since epoch
+  assetCount: number;
+}
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  updatedAt: number;
+  data: ProjectData;
+}
+
+// What the model is told about the scene when a request includes scene context.
+export interface SceneSnapshot {
+  assets: { label: string; visible: boolean; transform: AssetTransform; parent?: string }[];
+  intrinsics?: CameraIntrinsics;
 }
 
 export interface ThreeDViewerRef {
-  getSceneData: () => { id: string; transform: AssetTransform }[];
+  getSceneData: () => { id: string; transform: AssetTransform }[]; // world-space transforms
+  getBoundsCenter: (ids: string[]) => Vector3 | null;
+  exportGlb: () => Promise<ArrayBuffer>; // visible assets and cameras as glTF binary
+  renderCameraImages: () => Promise<CameraRender>; // the calibrated view at the intrinsics' image size
   clearScene: () => void;
+  setAssetTransform: (id: string, transform: AssetTransform) => void;
+  dropToSurface: (ids: string[]) => void; // onto the asset or grid beneath each one
+  alignAssets: (ids: string[], axis: keyof Vector3, mode: AlignMode) => void;
+  distributeAssets: (ids: string[], axis: keyof Vector3) => void; // even spacing between the outermost two
+  undo: () => boolean;
+  redo: () => boolean;
 }